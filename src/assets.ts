@@ -0,0 +1,261 @@
+import * as path from "path";
+
+import { relPosixNoDot } from "./util";
+import { CONTENT_HASH_LEN } from "./dedup";
+import { findLinks, linkPaths } from "./links";
+import { SIDECAR_EXTS, sidecarPath } from "./chem";
+import { ORIGINAL_EXTS, originalPath } from "./originals";
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+// A document that may link pasted images: its path and text.
+export type LinkingDoc = { abs: string; text: string };
+
+export type FileMove = { from: string; to: string };
+
+// Replacement of text[start, end).
+export type LinkEdit = { start: number; end: number; text: string };
+
+// ── Pasted file names ─────────────────────────────────────────────────────────
+
+// Extensions pasteVector writes.
+export const OUTPUT_EXTS = ["svg", "png", "jpg"];
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+const VAR_PATTERNS: Record<string, string> = {
+  documentBaseName: "[^/]+",
+  unixTime: "\\d+",
+  fileExtName: `(?:${OUTPUT_EXTS.join("|")})`,
+  contentHash: `[0-9a-f]{${CONTENT_HASH_LEN}}`,
+  counter: "\\d+",
+};
+
+// A template split into literal text and variables, with the place of the
+// _1, _2, ... suffix withNumericSuffix gives taken names (before the
+// extension) when the template has no ${counter}.
+type TemplatePart = { literal: string } | { variable: string } | "suffix";
+
+function templateParts(tpl: string): TemplatePart[] {
+  const split = (t: string): TemplatePart[] =>
+    t
+      .split(/(\$\{[^}]+\})/)
+      .filter((part) => part)
+      .map((part) => {
+        const v = /^\$\{([^}]+)\}$/.exec(part);
+        return v ? { variable: v[1] } : { literal: part };
+      });
+  if (tpl.includes("${counter}")) return split(tpl);
+  const dot = tpl.lastIndexOf(".");
+  return dot > tpl.lastIndexOf("/")
+    ? [...split(tpl.slice(0, dot)), "suffix", ...split(tpl.slice(dot))]
+    : [...split(tpl), "suffix"];
+}
+
+// docBase: match ${documentBaseName} as exactly this name.
+function partPattern(part: TemplatePart, docBase?: string): string {
+  if (part === "suffix") return "(?:_\\d+)?";
+  if ("literal" in part) return escapeRegExp(part.literal);
+  if (part.variable === "documentBaseName" && docBase !== undefined) {
+    return escapeRegExp(docBase);
+  }
+  return VAR_PATTERNS[part.variable] ?? "";
+}
+
+function normalizeTemplate(tpl: string): string {
+  return path.posix.normalize(tpl.replace(/\\/g, "/"));
+}
+
+// Matches the POSIX paths of files pasteVector could have written with
+// pasteVector.destinationTemplate tpl, including the _1, _2, ... suffixes of
+// taken names. The template is relative to a document anywhere in the
+// workspace, so only its trailing path segments are matched.
+export function destinationPattern(tpl: string): RegExp {
+  const rel = normalizeTemplate(tpl).replace(/^(?:\.\.\/)+/, "");
+  const body = templateParts(rel)
+    .map((p) => partPattern(p))
+    .join("");
+  return new RegExp(`(?:^|/)${body}$`);
+}
+
+// If rel (relative to the document) is where tpl puts images pasted into a
+// document named oldBase, returns it with that name replaced by newBase.
+// Otherwise null: the image was not pasted for this document.
+export function renameOwnedAsset(
+  tpl: string,
+  rel: string,
+  oldBase: string,
+  newBase: string,
+): string | null {
+  const parts = templateParts(normalizeTemplate(tpl));
+  const re = new RegExp(
+    `^${parts.map((p) => `(${partPattern(p, oldBase)})`).join("")}$`,
+  );
+  const m = re.exec(path.posix.normalize(rel));
+  if (!m) return null;
+  return parts
+    .map((p, i) =>
+      p !== "suffix" && "variable" in p && p.variable === "documentBaseName"
+        ? newBase
+        : m[i + 1],
+    )
+    .join("");
+}
+
+// The files kept alongside a pasted image: structure files and cached
+// originals, whether or not they exist.
+export function companionPaths(imageAbs: string): string[] {
+  return [
+    ...SIDECAR_EXTS.map((ext) => sidecarPath(imageAbs, ext)),
+    ...ORIGINAL_EXTS.map((ext) => originalPath(imageAbs, ext)),
+  ];
+}
+
+// ── Linking documents ─────────────────────────────────────────────────────────
+
+// Documents that can link images, by extension. Quarto (qmd) and R Markdown
+// (Rmd) are Markdown with code chunks.
+export const DOC_EXTS = [
+  "md",
+  "markdown",
+  "mdx",
+  "qmd",
+  "Rmd",
+  "rmd",
+  "tex",
+  "adoc",
+  "asciidoc",
+  "rst",
+  "typ",
+  "org",
+  "ipynb",
+  "html",
+  "htm",
+];
+
+export function isLinkingDoc(abs: string): boolean {
+  return DOC_EXTS.includes(path.extname(abs).slice(1).toLowerCase());
+}
+
+// Notebooks are JSON: Markdown cell sources are split into lines with escaped
+// quotes, so they are joined first.
+export function linkingText(abs: string, raw: string): string {
+  if (path.extname(abs).toLowerCase() !== ".ipynb") return raw;
+  try {
+    const nb: { cells?: { source?: string | string[] }[] } = JSON.parse(raw);
+    return (nb.cells ?? [])
+      .map((c) =>
+        Array.isArray(c.source) ? c.source.join("") : String(c.source ?? ""),
+      )
+      .join("\n");
+  } catch {
+    return raw;
+  }
+}
+
+// ── Orphans ───────────────────────────────────────────────────────────────────
+
+// Links to URLs and attachment: are not files.
+function isLocalLink(p: string): boolean {
+  return !/^[a-z][a-z0-9+.-]+:/i.test(p);
+}
+
+function decodeLink(p: string): string {
+  try {
+    return decodeURI(p);
+  } catch {
+    return p;
+  }
+}
+
+// Absolute paths of the local images linked from doc.
+export function linkedFiles(doc: LinkingDoc): string[] {
+  const dir = path.dirname(doc.abs);
+  return linkPaths(doc.text)
+    .filter(isLocalLink)
+    .map((p) => path.resolve(dir, decodeLink(p)));
+}
+
+// Whether text names the file, as a whole word: b.svg is not mentioned by
+// a_b.svg.
+function mentions(text: string, fileName: string): boolean {
+  return new RegExp(`(?:^|[^\\w.%-])${escapeRegExp(fileName)}(?![\\w.-])`).test(
+    text,
+  );
+}
+
+// The assets no document refers to. A file counts as referenced when a link
+// resolves to it, or, to stay on the safe side with syntaxes not parsed here
+// (reference-style definitions, code), when any document mentions its name.
+export function findOrphans(assets: string[], docs: LinkingDoc[]): string[] {
+  const linked = new Set(docs.flatMap(linkedFiles));
+  return assets.filter(
+    (abs) =>
+      !linked.has(abs) &&
+      !docs.some((d) => mentions(d.text, path.basename(abs))),
+  );
+}
+
+// ── Renamed documents ─────────────────────────────────────────────────────────
+
+// The images a document moved from oldAbs to newAbs takes along: those it
+// links that tpl names for its old base name. They keep their path relative
+// to the document; with renameImages their names follow the new base name.
+export function ownedAssetMoves(
+  text: string,
+  oldAbs: string,
+  newAbs: string,
+  tpl: string,
+  renameImages: boolean,
+): FileMove[] {
+  const oldDir = path.dirname(oldAbs);
+  const newDir = path.dirname(newAbs);
+  const oldBase = path.basename(oldAbs, path.extname(oldAbs));
+  const newBase = renameImages
+    ? path.basename(newAbs, path.extname(newAbs))
+    : oldBase;
+  const moves = new Map<string, string>();
+  for (const p of linkPaths(text).filter(isLocalLink)) {
+    const from = path.resolve(oldDir, decodeLink(p));
+    const rel = relPosixNoDot(oldDir, from);
+    const renamed = renameOwnedAsset(tpl, rel, oldBase, newBase);
+    if (renamed === null) continue;
+    const to = path.resolve(newDir, renamed);
+    if (to !== from) moves.set(from, to);
+  }
+  return [...moves].map(([from, to]) => ({ from, to }));
+}
+
+// Edits to the links in text, a document moved from oldDocAbs to docAbs (the
+// same path when it did not move), so they point to the same files once the
+// moves are done. Encoded links (%20) stay encoded.
+export function relinkEdits(
+  text: string,
+  oldDocAbs: string,
+  docAbs: string,
+  moves: FileMove[],
+): LinkEdit[] {
+  const moved = new Map(moves.map((m) => [m.from, m.to]));
+  const oldDir = path.dirname(oldDocAbs);
+  const newDir = path.dirname(docAbs);
+  const edits: LinkEdit[] = [];
+  const seen = new Set<number>();
+  for (const link of findLinks(text)) {
+    if (!isLocalLink(link.path) || seen.has(link.start)) continue;
+    seen.add(link.start);
+    const decoded = decodeLink(link.path);
+    const from = path.resolve(oldDir, decoded);
+    const to = moved.get(from);
+    if (!to && oldDir === newDir) continue;
+    const rel = relPosixNoDot(newDir, to ?? from);
+    if (rel === path.posix.normalize(decoded)) continue;
+    edits.push({
+      start: link.start,
+      end: link.end,
+      text: decoded === link.path ? rel : encodeURI(rel),
+    });
+  }
+  return edits;
+}
@@ -0,0 +1,78 @@
+import * as path from "path";
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+// A native structure format kept next to a pasted image. names are the Windows
+// clipboard format names it is read from, case-insensitive; the first one is
+// used when copying it back. mdlct: the clipboard holds MDL's length-prefixed
+// "MDLCT" encoding, stored as a plain molfile.
+export type ChemFormat = {
+  ext: string;
+  names: string[];
+  text: boolean;
+  mdlct?: boolean;
+};
+
+// ── Formats ───────────────────────────────────────────────────────────────────
+
+// In order of preference when copying back: ChemDraw's own formats keep every
+// drawing detail; MOL and SMILES only the connectivity.
+export const CHEM_FORMATS: ChemFormat[] = [
+  { ext: "cdx", names: ["ChemDraw Interchange Format"], text: false },
+  {
+    ext: "cdxml",
+    names: ["CDXML", "ChemDraw XML", "chemical/x-cdxml"],
+    text: true,
+  },
+  {
+    ext: "mol",
+    names: ["MDLCT"],
+    text: false,
+    mdlct: true,
+  },
+  {
+    ext: "mol",
+    names: ["MDL Molfile", "chemical/x-mdl-molfile"],
+    text: true,
+  },
+  {
+    ext: "smi",
+    names: ["SMILES", "Daylight SMILES", "chemical/x-daylight-smiles"],
+    text: true,
+  },
+];
+
+// Sidecar extensions, without duplicates, in CHEM_FORMATS order.
+export const SIDECAR_EXTS = [...new Set(CHEM_FORMATS.map((f) => f.ext))];
+
+// img/benzene.svg + "cdx" → img/benzene.cdx
+export function sidecarPath(imageAbs: string, ext: string): string {
+  const base = imageAbs.slice(
+    0,
+    imageAbs.length - path.extname(imageAbs).length,
+  );
+  return `${base}.${ext}`;
+}
+
+// ── MDLCT ─────────────────────────────────────────────────────────────────────
+
+// MDLCT is a molfile whose lines are each prefixed with their length byte.
+export function decodeMdlct(buf: Buffer): string {
+  const lines: string[] = [];
+  for (let i = 0; i < buf.length; i += 1 + buf[i]) {
+    lines.push(buf.toString("latin1", i + 1, i + 1 + buf[i]));
+  }
+  return lines.join("\n");
+}
+
+// Lines longer than 255 bytes cannot be encoded and are truncated; molfile
+// lines are at most 80 characters.
+export function encodeMdlct(molfile: string): Buffer {
+  const lines = molfile.replace(/\r\n?/g, "\n").replace(/\n$/, "").split("\n");
+  const parts: Buffer[] = [];
+  for (const line of lines) {
+    const b = Buffer.from(line, "latin1").subarray(0, 255);
+    parts.push(Buffer.from([b.length]), b);
+  }
+  return Buffer.concat(parts);
+}
@@ -0,0 +1,116 @@
+import * as vscode from "vscode";
+import * as path from "path";
+
+import { statSafe } from "./util";
+import {
+  OUTPUT_EXTS,
+  companionPaths,
+  destinationPattern,
+  findOrphans,
+} from "./assets";
+import { EXCLUDE_GLOB, readLinkingDocs } from "./workspaceDocs";
+
+type OrphanItem = vscode.QuickPickItem & { uri: vscode.Uri };
+
+// Files in folder named like pasteVector output under the folder's
+// pasteVector.destinationTemplate.
+async function pastedAssets(folder: vscode.WorkspaceFolder): Promise<string[]> {
+  const tpl = vscode.workspace
+    .getConfiguration(undefined, folder.uri)
+    .get<string>(
+      "pasteVector.destinationTemplate",
+      "img_${documentBaseName}_${unixTime}.${fileExtName}",
+    );
+  const re = destinationPattern(tpl);
+  const found = await vscode.workspace.findFiles(
+    new vscode.RelativePattern(folder, `**/*.{${OUTPUT_EXTS.join(",")}}`),
+    EXCLUDE_GLOB,
+  );
+  return found
+    .map((u) => u.fsPath)
+    .filter((abs) =>
+      re.test(path.relative(folder.uri.fsPath, abs).replace(/\\/g, "/")),
+    );
+}
+
+// ── Cleanup command ───────────────────────────────────────────────────────────
+
+// The image with its structure files and cached original.
+async function filesOf(imageAbs: string): Promise<string[]> {
+  const existing: string[] = [];
+  for (const f of [imageAbs, ...companionPaths(imageAbs)]) {
+    if ((await statSafe(f)).exists) existing.push(f);
+  }
+  return existing;
+}
+
+// "Clean Up Unreferenced Images": lists pasted images that no document in
+// the workspace links to, and moves the chosen ones to the trash.
+export async function cleanUpOrphanedImages(
+  log: (msg: string) => void,
+): Promise<void> {
+  const folders = vscode.workspace.workspaceFolders ?? [];
+  if (!folders.length) {
+    vscode.window.showInformationMessage(
+      "pasteVector: Open a folder to look for unreferenced images.",
+    );
+    return;
+  }
+
+  const orphans = await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Window,
+      title: "pasteVector: looking for unreferenced images",
+    },
+    async () => {
+      const assets: string[] = [];
+      for (const f of folders) assets.push(...(await pastedAssets(f)));
+      return findOrphans(assets, await readLinkingDocs());
+    },
+  );
+  log(`cleanup orphans=${orphans.length}`);
+  if (!orphans.length) {
+    vscode.window.showInformationMessage(
+      "pasteVector: Every pasted image is linked from a document.",
+    );
+    return;
+  }
+
+  const items: OrphanItem[] = orphans.sort().map((abs) => {
+    const uri = vscode.Uri.file(abs);
+    return {
+      label: path.basename(abs),
+      description: path.dirname(vscode.workspace.asRelativePath(uri, true)),
+      uri,
+    };
+  });
+  const picked = await vscode.window.showQuickPick(items, {
+    title: `pasteVector: ${items.length} unreferenced image(s)`,
+    placeHolder: "Select the images to move to the trash",
+    canPickMany: true,
+    matchOnDescription: true,
+  });
+  if (!picked?.length) return;
+
+  let n = 0;
+  for (const item of picked) {
+    try {
+      for (const abs of await filesOf(item.uri.fsPath)) {
+        await vscode.workspace.fs.delete(vscode.Uri.file(abs), {
+          useTrash: true,
+        });
+        log(`trash ${abs}`);
+      }
+      n++;
+    } catch (e: any) {
+      const msg = e?.message ?? String(e);
+      log(`error trash ${item.uri.fsPath}: ${msg}`);
+      vscode.window.showErrorMessage(
+        `pasteVector: Could not move ${item.label} to the trash — ${msg}`,
+      );
+    }
+  }
+  vscode.window.showInformationMessage(
+    `pasteVector: Moved ${n} image(s) to the trash.`,
+  );
+}
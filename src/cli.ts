@@ -0,0 +1,314 @@
+#!/usr/bin/env node
+import * as fs from "fs/promises";
+import * as path from "path";
+import { parseArgs } from "util";
+
+import { relPosixNoDot } from "./util";
+import { FitEngine } from "./svg";
+import {
+  listClipboardTypes,
+  readClipboardText,
+  snapshotClipboard,
+} from "./clipboard";
+import { planDroppedFile } from "./drop";
+import { parseFormatRules } from "./priority";
+import {
+  LinkStyle,
+  formatImageLink,
+  imageSizeOf,
+  templateNeedsSize,
+} from "./links";
+import {
+  ClipboardBackendPreference,
+  CoreOptions,
+  discardOutput,
+  pasteTarget,
+  placeOutput,
+  planClipboard,
+} from "./core";
+
+// The pastevector command: the extension's clipboard pipeline for editors
+// other than VS Code and for scripts.
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+// Where output goes; tests capture it.
+export type CliIo = {
+  out: (text: string) => void;
+  err: (text: string) => void;
+};
+
+type Flags = Record<string, string | boolean | string[] | undefined>;
+
+// ── Constants ─────────────────────────────────────────────────────────────────
+
+const USAGE = `Usage: pastevector <command> [options]
+
+Commands:
+  paste              Save the clipboard image and print a link to it
+  types              List the types the clipboard offers
+  convert <in> <out> Convert an EMF, SVGZ, WMF or PDF file to SVG
+  record <dir>       Save a clipboard snapshot to <dir> (usable as a fixture)
+
+Options (paste):
+  -o, --out <template>   Output path template, relative to --doc's folder
+                         (default: img_\${documentBaseName}_\${unixTime}.\${fileExtName})
+  -d, --doc <file>       Document the link is for (default: ./clipboard.md)
+  -f, --format <style>   markdown, latex, asciidoc, rst, typst or org
+  --alt <text>           Alt text
+  --latex-figure         Wrap LaTeX links in a figure environment
+  --template <template>  Link template (\${path}, \${altText}, \${width}, ...)
+  --priority <rule>      Format priority rule, repeatable ("png", "!emf")
+  --dedup                Reuse an existing file with the same content
+  --keep-originals       Cache the data converted from in .pastevector/
+  --no-structure         Do not save ChemDraw structure files (WSL)
+  --backend <backend>    auto, wayland or x11
+
+Options (paste, convert):
+  --emf-scale <percent>  EMF display scale (default: from the EMF header)
+  --fit-engine <engine>  builtin or inkscape
+  --no-fit               Keep the canvas as converted
+
+  -v, --verbose          Log to stderr
+  -h, --help             Show this help
+`;
+
+const LINK_STYLES: LinkStyle[] = [
+  "markdown",
+  "latex",
+  "asciidoc",
+  "rst",
+  "typst",
+  "org",
+];
+
+const DEFAULT_TEMPLATE = "img_${documentBaseName}_${unixTime}.${fileExtName}";
+
+class UsageError extends Error {}
+
+// ── Options ───────────────────────────────────────────────────────────────────
+
+function oneOf<T extends string>(
+  flag: string,
+  value: unknown,
+  allowed: readonly T[],
+  fallback: T,
+): T {
+  if (value === undefined) return fallback;
+  if (!allowed.includes(value as T)) {
+    throw new UsageError(`--${flag} must be one of ${allowed.join(", ")}.`);
+  }
+  return value as T;
+}
+
+function coreOptions(flags: Flags): CoreOptions {
+  let emfScalePercent: number | null = null;
+  if (flags["emf-scale"] !== undefined) {
+    emfScalePercent = Number(flags["emf-scale"]);
+    if (!(emfScalePercent > 0)) {
+      throw new UsageError("--emf-scale must be a positive number.");
+    }
+  }
+  const fit = !flags["no-fit"];
+  return {
+    preferBackend: oneOf<ClipboardBackendPreference>(
+      "backend",
+      flags.backend,
+      ["auto", "wayland", "x11"],
+      "auto",
+    ),
+    destinationTemplate: (flags.out as string | undefined) ?? DEFAULT_TEMPLATE,
+    finalizeSvg: fit,
+    emfScalePercent,
+    finalizeEmfWithInkscape: fit,
+    fitEngine: oneOf<FitEngine>(
+      "fit-engine",
+      flags["fit-engine"],
+      ["builtin", "inkscape"],
+      "builtin",
+    ),
+    deduplicate: !!flags.dedup,
+    formatPriority: parseFormatRules((flags.priority as string[]) ?? []),
+    keepNativeStructure: !flags["no-structure"],
+    keepOriginals: !!flags["keep-originals"],
+    linkTemplate: (flags.template as string | undefined) ?? "",
+  };
+}
+
+function parse(argv: string[]) {
+  return parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      out: { type: "string", short: "o" },
+      doc: { type: "string", short: "d" },
+      format: { type: "string", short: "f" },
+      alt: { type: "string" },
+      "latex-figure": { type: "boolean" },
+      template: { type: "string" },
+      priority: { type: "string", multiple: true },
+      dedup: { type: "boolean" },
+      "keep-originals": { type: "boolean" },
+      "no-structure": { type: "boolean" },
+      backend: { type: "string" },
+      "emf-scale": { type: "string" },
+      "fit-engine": { type: "string" },
+      "no-fit": { type: "boolean" },
+      verbose: { type: "boolean", short: "v" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+}
+
+// ── Commands ──────────────────────────────────────────────────────────────────
+
+async function paste(flags: Flags, io: CliIo, log: (msg: string) => void) {
+  const o = coreOptions(flags);
+  const style = oneOf("format", flags.format, LINK_STYLES, "markdown");
+  const docAbs = path.resolve(
+    (flags.doc as string | undefined) ?? "clipboard.md",
+  );
+  const target = pasteTarget(docAbs, o);
+
+  const clipText = await readClipboardText(o.preferBackend);
+  const plan = await planClipboard(o, clipText, target, log);
+  if (!plan) {
+    io.err("pastevector: The clipboard holds no image.\n");
+    return 1;
+  }
+  log(`plan handler=${plan.handler} type=${plan.usedType}`);
+  try {
+    await plan.convert();
+    const outAbs = await placeOutput(plan, target, o, log);
+    const ext = path.extname(outAbs).slice(1).toLowerCase();
+    const size = templateNeedsSize(o.linkTemplate)
+      ? imageSizeOf(await fs.readFile(outAbs), ext)
+      : undefined;
+    io.out(
+      `${formatImageLink(relPosixNoDot(target.docDir, outAbs), {
+        style,
+        altText: (flags.alt as string | undefined) ?? "",
+        latexFigure: !!flags["latex-figure"],
+        template: o.linkTemplate,
+        size,
+      })}\n`,
+    );
+    return 0;
+  } catch (e) {
+    await discardOutput(plan);
+    throw e;
+  } finally {
+    await plan.dispose?.();
+  }
+}
+
+async function types(flags: Flags, io: CliIo) {
+  const prefer = coreOptions(flags).preferBackend;
+  const entries = await listClipboardTypes(prefer);
+  if (!entries.length) {
+    io.err("pastevector: No clipboard found (wl-paste, xclip or WSL).\n");
+    return 1;
+  }
+  let code = 0;
+  for (const entry of entries) {
+    if (entry.error) {
+      io.err(`${entry.kind}: ${entry.error}\n`);
+      code = 1;
+      continue;
+    }
+    io.out(`# ${entry.kind}${entry.source ? ` (${entry.source})` : ""}\n`);
+    for (const t of entry.types) {
+      const size = entry.sizes?.[t];
+      io.out(size === undefined ? `${t}\n` : `${t}\t${size}\n`);
+    }
+  }
+  return code;
+}
+
+async function convert(
+  files: string[],
+  flags: Flags,
+  log: (msg: string) => void,
+) {
+  if (files.length !== 2) throw new UsageError("convert needs <in> and <out>.");
+  const [inAbs, outAbs] = files.map((f) => path.resolve(f));
+  if (path.extname(outAbs).toLowerCase() !== ".svg") {
+    throw new UsageError("convert writes SVG: <out> must end in .svg.");
+  }
+  const plan = planDroppedFile(inAbs, () => outAbs, coreOptions(flags), log);
+  if (!plan) {
+    throw new UsageError(
+      `Cannot convert ${path.extname(inAbs) || "files without extension"}.`,
+    );
+  }
+  await plan.convert();
+  log(`convert ${plan.handler} -> ${outAbs}`);
+  return 0;
+}
+
+// Saves a clipboard snapshot; see snapshotClipboard.
+async function record(
+  dirs: string[],
+  flags: Flags,
+  io: CliIo,
+  log: (msg: string) => void,
+) {
+  if (dirs.length !== 1) throw new UsageError("record needs <dir>.");
+  const dir = path.resolve(dirs[0]);
+  const prefer = coreOptions(flags).preferBackend;
+  const manifests = await snapshotClipboard(dir, prefer, log);
+  if (!manifests.length) {
+    io.err("pastevector: Nothing to record.\n");
+    return 1;
+  }
+  for (const m of manifests) {
+    io.out(
+      `# ${path.join(dir, m.backend)}${m.source ? ` (${m.source})` : ""}\n`,
+    );
+    for (const t of m.types) io.out(`${t.type}\t${t.size}\n`);
+  }
+  return 0;
+}
+
+// ── Entry point ───────────────────────────────────────────────────────────────
+
+// Runs one command; resolves to the exit code (2 for usage errors).
+export async function main(
+  argv: string[],
+  io: CliIo = {
+    out: (t) => process.stdout.write(t),
+    err: (t) => process.stderr.write(t),
+  },
+): Promise<number> {
+  try {
+    const { values: flags, positionals } = parse(argv);
+    const [command, ...rest] = positionals;
+    if (flags.help || !command) {
+      (flags.help ? io.out : io.err)(USAGE);
+      return flags.help ? 0 : 2;
+    }
+    const log = flags.verbose
+      ? (msg: string) => io.err(`${msg}\n`)
+      : () => undefined;
+    switch (command) {
+      case "paste":
+        return await paste(flags, io, log);
+      case "types":
+        return await types(flags, io);
+      case "convert":
+        return await convert(rest, flags, log);
+      case "record":
+        return await record(rest, flags, io, log);
+      default:
+        throw new UsageError(`Unknown command ${command}.`);
+    }
+  } catch (e: any) {
+    const usage = e instanceof UsageError || e?.code?.startsWith?.("ERR_PARSE");
+    io.err(`pastevector: ${e?.message ?? String(e)}\n`);
+    return usage ? 2 : 1;
+  }
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2)).then((code) => (process.exitCode = code));
+}
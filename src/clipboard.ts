@@ -1,8 +1,7 @@
-import * as vscode from "vscode";
+import * as crypto from "crypto";
 import * as fs from "fs/promises";
 import * as os from "os";
 import * as path from "path";
-import * as zlib from "zlib";
 
 import {
   nonce,
@@ -11,108 +10,151 @@ import {
   statSafe,
   writeBytes,
   commandExists,
-  runText,
-  runBin,
+  releasePath,
   isWSL,
   wslpathWin,
   psEscapeSingleQuoted,
+  moveFile,
+  tempSibling,
+  maybeGunzip,
 } from "./util";
-import { finalizeSvgWithInkscape } from "./svg";
+import { FitEngine, fitSvgCanvas } from "./svg";
 import { convertEmfToSvg } from "./emf";
+import { FormatKey, FormatRules, NO_RULES, applyFormatRules } from "./priority";
+import { CHEM_FORMATS, decodeMdlct, encodeMdlct } from "./chem";
+import { OriginalExt } from "./originals";
+import {
+  ClipboardBackend,
+  OfferedType,
+  SnapshotManifest,
+  getBackends,
+  recordClipboard,
+  writeManifest,
+} from "./clipboardBackends";
+import { POWERSHELL } from "./powershell";
 
 // ── Types ─────────────────────────────────────────────────────────────────────
 
 // Plan: the output path is known; convert() does the slow I/O work in background.
+// convert() keeps the raw clipboard bytes it captured, so it can be run again
+// after a failure; dispose() releases them once the plan is done with.
+// sidecars: native structure data captured with the image (see chem.ts), as
+// temporary files that are saved next to the output once conversion succeeds.
+// text: plain text the clipboard carried alongside the image, for alt text.
+// original: the data the output is converted from, cached for re-conversion;
+// read() is only called after convert() succeeded.
 export type ClipboardPlan = {
   outAbs: string;
   handler: string;
   usedType: string;
   convert: () => Promise<void>;
+  dispose?: () => Promise<void>;
+  sidecars?: Sidecar[];
+  text?: string;
+  original?: PlanOriginal;
+};
+
+export type PlanOriginal = {
+  ext: OriginalExt;
+  read: () => Promise<Buffer | null>;
+};
+
+export type Sidecar = { ext: string; abs: string };
+
+// One format "Paste As…" can offer. format is the handler name that is
+// remembered per source application; plan() exports and converts it.
+export type ClipboardFormatOption = {
+  format: string;
+  type: string;
+  size: number;
+  ext: string;
+  plan: (makeOutAbs: (ext: string) => string) => Promise<ClipboardPlan | null>;
+};
+
+// source identifies the application that filled the clipboard (null when
+// unknown); sourceName is its display name where the platform reports one.
+export type ClipboardOffer = {
+  source: string | null;
+  sourceName: string | null;
+  options: ClipboardFormatOption[];
 };
 
-type BackendKind = "wayland" | "x11";
-type OfferedType = { raw: string; base: string };
+// Source key → format to use first for that source.
+export type FormatChoiceMap = Record<string, string>;
+
 type WslExportKind = "svg" | "emf" | "png";
+type WslFormat = "svg" | "html" | "emf" | "png";
+type LinuxCandidate = { h: LinuxHandler; t: OfferedType };
+
+// How clipboard content is converted (pasteVector.emfScalePercent, ...).
+export type ConvertConfig = {
+  emfScalePercent: number | null;
+  finalizeEmfWithInkscape: boolean;
+  fitEngine: FitEngine;
+  keepNativeStructure: boolean;
+};
+
+// How a paste picks among offered formats: remembered per-source choices and
+// the pasteVector.formatPriority rules.
+export type FormatSelection = {
+  remembered?: FormatChoiceMap;
+  rules?: FormatRules;
+};
 
 type LinuxHandler = {
   name: string;
   ext: string;
+  original?: OriginalExt;
   bases: string[];
-  run: (bytes: Buffer, outAbs: string, finalizeSvg: boolean) => Promise<void>;
+  run: (
+    bytes: Buffer,
+    outAbs: string,
+    finalizeSvg: boolean,
+    config: ConvertConfig,
+    log: (msg: string) => void,
+  ) => Promise<void>;
 };
 
-// ── Constants ─────────────────────────────────────────────────────────────────
-
-const T_LIST_MS = 1_200;
-const T_READ_MS = 6_000;
-const T_WINCLIP_MS = 12_000;
+// The types one clipboard offers, for display. sizes (bytes, by type) and
+// source (the application owning the clipboard) are only known for the
+// Windows clipboard.
+export type ClipboardTypeList = {
+  kind: string;
+  types: string[];
+  sizes?: Record<string, number>;
+  source?: string;
+  error?: string;
+};
 
-// ── Linux clipboard backend ───────────────────────────────────────────────────
+// ── Constants ─────────────────────────────────────────────────────────────────
 
-class ClipboardBackend {
-  constructor(public kind: BackendKind) {}
+// Per script; a new helper gets extra time to start (see POWERSHELL).
+const T_WINCLIP_MS = 6_000;
 
-  async listTypes(): Promise<OfferedType[]> {
-    if (this.kind === "wayland") {
-      const r = await runText("wl-paste", ["--list-types"], T_LIST_MS);
-      return (r.stdout || "")
-        .split(/\r?\n/)
-        .map((s) => s.trim())
-        .filter(Boolean)
-        .map((raw) => ({ raw, base: raw.split(";")[0].trim() }));
-    }
-    const r = await runText(
-      "xclip",
-      ["-selection", "clipboard", "-o", "-t", "TARGETS"],
-      T_LIST_MS,
-    );
-    return (r.stdout || "")
-      .split(/\r?\n/)
-      .map((s) => s.trim())
-      .filter(Boolean)
-      .map((raw) => ({ raw, base: raw }));
-  }
+// Default Windows cascade order, and the types each format answers to in
+// pasteVector.formatPriority besides its name.
+const WSL_FORMATS: WslFormat[] = ["svg", "html", "emf", "png"];
+const WSL_FORMAT_TYPES: Record<WslFormat, string[]> = {
+  svg: ["image/svg+xml"],
+  html: ["text/html", "HTML Format"],
+  emf: ["image/emf", "image/x-emf", "EnhancedMetafile"],
+  png: ["image/png", "Bitmap"],
+};
 
-  async readType(rawType: string): Promise<Buffer> {
-    const r =
-      this.kind === "wayland"
-        ? await runBin("wl-paste", ["-t", rawType], T_READ_MS)
-        : await runBin(
-            "xclip",
-            ["-selection", "clipboard", "-o", "-t", rawType],
-            T_READ_MS,
-          );
-    if (r.code !== 0 || r.bytes.length === 0)
-      throw new Error(`Clipboard read failed (${rawType}).`);
-    return r.bytes;
+// The clipboard's plain text for callers outside VS Code, whose own clipboard
+// API reads the Windows clipboard under WSL. "" when there is none.
+export async function readClipboardText(
+  prefer: "auto" | "wayland" | "x11",
+): Promise<string> {
+  if (isWSL() && commandExists("powershell.exe")) {
+    const r = await POWERSHELL.run("Get-Clipboard -Raw", T_WINCLIP_MS);
+    if (r.code === 0) return r.stdout.replace(/\r\n/g, "\n").replace(/\n$/, "");
   }
-}
-
-function getBackends(prefer: "auto" | "wayland" | "x11"): ClipboardBackend[] {
-  const hasWayland = !!process.env.WAYLAND_DISPLAY && commandExists("wl-paste");
-  const hasX11 = commandExists("xclip");
-  const w = hasWayland ? new ClipboardBackend("wayland") : null;
-  const x = hasX11 ? new ClipboardBackend("x11") : null;
-  const ordered =
-    prefer === "wayland" ? [w, x] : prefer === "x11" ? [x, w] : [w, x];
-  return ordered.filter(Boolean) as ClipboardBackend[];
-}
-
-function pickFirst(
-  offered: OfferedType[],
-  bases: string[],
-): OfferedType | null {
-  for (const b of bases) {
-    const hit = offered.find((t) => t.base === b);
-    if (hit) return hit;
+  for (const backend of getBackends(prefer)) {
+    const text = await backend.readText();
+    if (text) return text;
   }
-  return null;
-}
-
-async function maybeGunzip(buf: Buffer): Promise<Buffer> {
-  return new Promise((resolve) =>
-    zlib.gunzip(buf, (err, out) => resolve(err ? buf : out)),
-  );
+  return "";
 }
 
 // ── Linux handlers ────────────────────────────────────────────────────────────
@@ -121,36 +163,40 @@ const LINUX_HANDLERS: LinuxHandler[] = [
   {
     name: "svg",
     ext: "svg",
+    original: "svg",
     bases: ["image/svg+xml", "image/x-inkscape-svg"],
-    run: async (b, out, doFinalize) => {
+    run: async (b, out, doFinalize, config, log) => {
       await writeBytes(out, b);
-      if (doFinalize) await finalizeSvgWithInkscape(out);
+      if (doFinalize) await fitSvgCanvas(out, config.fitEngine, log);
     },
   },
   {
     name: "svgz",
     ext: "svg",
+    original: "svgz",
     bases: ["image/svg+xml-compressed", "image/x-inkscape-svg-compressed"],
-    run: async (b, out, doFinalize) => {
+    run: async (b, out, doFinalize, config, log) => {
       await writeBytes(out, await maybeGunzip(b));
-      if (doFinalize) await finalizeSvgWithInkscape(out);
+      if (doFinalize) await fitSvgCanvas(out, config.fitEngine, log);
     },
   },
   {
     name: "emf",
     ext: "svg",
+    original: "emf",
     bases: ["WCF_ENHMETAFILE", "image/x-emf", "image/emf"],
-    run: async (b, out) => {
-      const cfg = vscode.workspace.getConfiguration();
-      const scalePercent = cfg.get<number>("pasteVector.emfScalePercent", 125);
-      const fitPage = cfg.get<boolean>(
-        "pasteVector.finalizeEmfWithInkscape",
-        true,
-      );
+    run: async (b, out, _finalizeSvg, config, log) => {
       const tmpEmf = path.join(os.tmpdir(), `pastevector_${nonce()}.emf`);
       await fs.writeFile(tmpEmf, b);
       try {
-        await convertEmfToSvg(tmpEmf, out, scalePercent, fitPage);
+        await convertEmfToSvg(
+          tmpEmf,
+          out,
+          config.emfScalePercent,
+          config.finalizeEmfWithInkscape,
+          log,
+          config.fitEngine,
+        );
       } finally {
         await removeIfExists(tmpEmf);
       }
@@ -174,31 +220,136 @@ const LINUX_HANDLERS: LinuxHandler[] = [
   },
 ];
 
+// Clipboards rarely name their owner on Linux, so the set of offered types
+// stands in for the source application.
+function linuxSourceKey(offered: OfferedType[]): string {
+  const bases = [...new Set(offered.map((t) => t.base))].sort().join("\n");
+  const digest = crypto.createHash("sha1").update(bases).digest("hex");
+  return `linux:${digest.slice(0, 12)}`;
+}
+
+function linuxPlan(
+  backend: ClipboardBackend,
+  h: LinuxHandler,
+  t: OfferedType,
+  outAbs: string,
+  finalizeSvg: boolean,
+  config: ConvertConfig,
+  log: (msg: string) => void,
+  bytes?: Buffer,
+): ClipboardPlan {
+  return {
+    outAbs,
+    handler: `linux-${h.name}`,
+    usedType: `${backend.kind}/${t.base}`,
+    convert: async () => {
+      bytes ??= await backend.readType(t.raw);
+      await h.run(bytes, outAbs, finalizeSvg, config, log);
+      const st = await statSafe(outAbs);
+      if (!st.exists || st.size === 0)
+        throw new Error(`Linux handler ${h.name} produced empty output.`);
+    },
+    original: h.original && {
+      ext: h.original,
+      read: async () => bytes ?? null,
+    },
+  };
+}
+
+// Offered types a handler accepts, in LINUX_HANDLERS / bases order, then
+// reordered and filtered by the priority rules.
+function linuxCandidates(
+  offered: OfferedType[],
+  rules: FormatRules,
+): LinuxCandidate[] {
+  const all: LinuxCandidate[] = [];
+  for (const h of LINUX_HANDLERS) {
+    for (const b of h.bases) {
+      for (const t of offered.filter((o) => o.base === b)) all.push({ h, t });
+    }
+  }
+  return applyFormatRules(
+    all,
+    (c) => ({ name: c.h.name, types: [c.t.base] }),
+    rules,
+  );
+}
+
 // planLinuxClipboard: list types synchronously, then return a plan.
 // convert() does the actual byte read and conversion in the background.
+// A format remembered for this source wins over the priority order.
 export async function planLinuxClipboard(
   prefer: "auto" | "wayland" | "x11",
   makeOutAbs: (ext: string) => string,
   finalizeSvg: boolean,
+  config: ConvertConfig,
+  log: (msg: string) => void,
+  formats: FormatSelection = {},
 ): Promise<ClipboardPlan | null> {
   for (const backend of getBackends(prefer)) {
     const offered = await backend.listTypes();
-    for (const h of LINUX_HANDLERS) {
-      const t = pickFirst(offered, h.bases);
-      if (!t) continue;
-      const outAbs = makeOutAbs(h.ext);
-      return {
-        outAbs,
-        handler: `linux-${h.name}`,
-        usedType: `${backend.kind}/${t.base}`,
-        convert: async () => {
-          const bytes = await backend.readType(t.raw);
-          await h.run(bytes, outAbs, finalizeSvg);
-          const st = await statSafe(outAbs);
-          if (!st.exists || st.size === 0)
-            throw new Error(`Linux handler ${h.name} produced empty output.`);
-        },
-      };
+    const first = formats.remembered?.[linuxSourceKey(offered)];
+    const candidates = linuxCandidates(offered, formats.rules ?? NO_RULES);
+    const pick = candidates.find((c) => c.h.name === first) ?? candidates[0];
+    if (!pick) continue;
+    const { h, t } = pick;
+    return linuxPlan(
+      backend,
+      h,
+      t,
+      makeOutAbs(h.ext),
+      finalizeSvg,
+      config,
+      log,
+    );
+  }
+  return null;
+}
+
+// Every offered type a handler accepts, read once to learn its size. The
+// bytes are kept so the chosen option converts exactly what was measured.
+async function listLinuxFormats(
+  prefer: "auto" | "wayland" | "x11",
+  finalizeSvg: boolean,
+  config: ConvertConfig,
+  rules: FormatRules,
+  log: (msg: string) => void,
+): Promise<ClipboardOffer | null> {
+  for (const backend of getBackends(prefer)) {
+    let offered: OfferedType[];
+    try {
+      offered = await backend.listTypes();
+    } catch {
+      continue;
+    }
+    const options: ClipboardFormatOption[] = [];
+    for (const { h, t } of linuxCandidates(offered, rules)) {
+      let bytes: Buffer;
+      try {
+        bytes = await backend.readType(t.raw);
+      } catch {
+        continue;
+      }
+      options.push({
+        format: h.name,
+        type: t.base,
+        size: bytes.length,
+        ext: h.ext,
+        plan: async (makeOutAbs) =>
+          linuxPlan(
+            backend,
+            h,
+            t,
+            makeOutAbs(h.ext),
+            finalizeSvg,
+            config,
+            log,
+            bytes,
+          ),
+      });
+    }
+    if (options.length) {
+      return { source: linuxSourceKey(offered), sourceName: null, options };
     }
   }
   return null;
@@ -206,128 +357,391 @@ export async function planLinuxClipboard(
 
 // ── WSL / Windows clipboard ───────────────────────────────────────────────────
 
+// Defines Ensure-Native, which compiles the ClipNative helper on first use.
+// EMF bits and the clipboard owner are only reachable through user32/gdi32.
+const PS_NATIVE = [
+  "function Ensure-Native {",
+  "  if('ClipNative' -as [type]) { return }",
+  "  Add-Type -Language CSharp -TypeDefinition @'",
+  "using System;",
+  "using System.IO;",
+  "using System.Runtime.InteropServices;",
+  "public static class ClipNative {",
+  "  const uint CF_ENHMETAFILE = 14;",
+  '  [DllImport("user32.dll", ExactSpelling=true)] static extern bool OpenClipboard(IntPtr h);',
+  '  [DllImport("user32.dll", ExactSpelling=true)] static extern bool CloseClipboard();',
+  '  [DllImport("user32.dll", ExactSpelling=true)] static extern bool IsClipboardFormatAvailable(uint format);',
+  '  [DllImport("user32.dll", ExactSpelling=true)] static extern IntPtr GetClipboardData(uint format);',
+  '  [DllImport("user32.dll", ExactSpelling=true)] static extern IntPtr GetClipboardOwner();',
+  '  [DllImport("user32.dll", ExactSpelling=true)] static extern uint GetWindowThreadProcessId(IntPtr hWnd, out uint pid);',
+  '  [DllImport("gdi32.dll",  ExactSpelling=true)] static extern uint GetEnhMetaFileBits(IntPtr hemf, uint cbBuffer, byte[] lpbBuffer);',
+  "  static IntPtr EmfHandle() {",
+  "    if (!IsClipboardFormatAvailable(CF_ENHMETAFILE)) return IntPtr.Zero;",
+  "    if (!OpenClipboard(IntPtr.Zero)) return IntPtr.Zero;",
+  "    IntPtr hemf = GetClipboardData(CF_ENHMETAFILE);",
+  "    CloseClipboard();",
+  "    return hemf;",
+  "  }",
+  "  public static uint EmfSize() {",
+  "    IntPtr hemf = EmfHandle();",
+  "    return hemf == IntPtr.Zero ? 0 : GetEnhMetaFileBits(hemf, 0, null);",
+  "  }",
+  "  public static int Save(string path) {",
+  "    if (!IsClipboardFormatAvailable(CF_ENHMETAFILE)) return 2;",
+  "    IntPtr hemf = EmfHandle();",
+  "    if (hemf == IntPtr.Zero) return 4;",
+  "    uint size = GetEnhMetaFileBits(hemf, 0, null);",
+  "    if (size == 0) return 5;",
+  "    byte[] buf = new byte[size];",
+  "    if (GetEnhMetaFileBits(hemf, size, buf) != size) return 6;",
+  "    File.WriteAllBytes(path, buf);",
+  "    return 0;",
+  "  }",
+  "  public static uint OwnerPid() {",
+  "    uint pid = 0;",
+  "    IntPtr hwnd = GetClipboardOwner();",
+  "    if (hwnd != IntPtr.Zero) GetWindowThreadProcessId(hwnd, out pid);",
+  "    return pid;",
+  "  }",
+  "}",
+  "'@",
+  "}",
+  "function Get-Source {",
+  "  try { Ensure-Native; return (Get-Process -Id ([ClipNative]::OwnerPid()) -ErrorAction Stop).ProcessName } catch { return $null }",
+  "}",
+];
+
+// Defines Save-ClipData, which writes string, byte[] or stream clipboard data.
+const PS_SAVE_DATA = [
+  "function Save-ClipData($d, $p) {",
+  "  if($d -is [string]) { [System.IO.File]::WriteAllText($p, $d.TrimEnd([char]0), (New-Object System.Text.UTF8Encoding $false)); return }",
+  "  if($d -is [byte[]]) { [System.IO.File]::WriteAllBytes($p, $d); return }",
+  "  if($d -is [System.IO.Stream]) { $ms=New-Object System.IO.MemoryStream; $d.CopyTo($ms); [System.IO.File]::WriteAllBytes($p, $ms.ToArray()) }",
+  "}",
+];
+
+// Writes each CHEM_FORMATS entry present on the clipboard to <prefix>.<index>.
+function psChemCapture(prefixWin: string): string[] {
+  const prefix = psEscapeSingleQuoted(prefixWin);
+  return [
+    ...PS_SAVE_DATA,
+    "$chem=New-Object System.Collections.ArrayList;",
+    ...CHEM_FORMATS.map(
+      (f) =>
+        `[void]$chem.Add(@(${f.names.map((n) => `'${psEscapeSingleQuoted(n)}'`).join(",")}));`,
+    ),
+    "if($do -ne $null) {",
+    "  $all=$do.GetFormats();",
+    "  for($i=0; $i -lt $chem.Count; $i++) {",
+    "    $f=$all | Where-Object { $chem[$i] -contains $_ } | Select-Object -First 1;",
+    `    if($f) { try { Save-ClipData $do.GetData($f) ('${prefix}.' + $i) } catch { } }`,
+    "  }",
+    "}",
+  ];
+}
+
+// Sets $svgFmt to the clipboard format the svg export reads.
+const PS_SVG_FORMAT = [
+  "$fmts=$do.GetFormats();",
+  "$svgFmt=$fmts | Where-Object { $_ -eq 'image/svg+xml' } | Select-Object -First 1;",
+  "if(-not $svgFmt) { $svgFmt=$fmts | Where-Object { $_ -match 'svg' } | Select-Object -First 1; }",
+];
+
+// Export script: tries the formats in $order and exits with 12 (SVG written),
+// 10 (EMF written) or 11 (PNG written); 2 means none was available. A format
+// remembered for the clipboard owner's process moves to the front. With
+// chemPrefixWin, native structure formats are captured first.
+function windowsExportScript(
+  outSvgWin: string,
+  outPngWin: string,
+  tmpEmfWin: string,
+  order: WslFormat[],
+  remembered: Record<string, WslFormat>,
+  chemPrefixWin: string | null,
+): string {
+  const svgOut = psEscapeSingleQuoted(outSvgWin);
+  const byOwner = Object.entries(remembered)
+    .map(([app, f]) => `'${psEscapeSingleQuoted(app)}'='${f}'`)
+    .join(";");
+  return [
+    "Add-Type -AssemblyName System.Windows.Forms;",
+    "Add-Type -AssemblyName System.Drawing;",
+    ...PS_NATIVE,
+    `$order=@(${order.map((f) => `'${f}'`).join(",")});`,
+    ...(byOwner
+      ? [
+          `$remembered=@{${byOwner}};`,
+          "$src=Get-Source;",
+          "if($src -and $remembered.ContainsKey($src) -and ($order -contains $remembered[$src])) {",
+          "  $k=$remembered[$src];",
+          "  $order=@($k) + @($order | Where-Object { $_ -ne $k });",
+          "}",
+        ]
+      : []),
+    "$do=[System.Windows.Forms.Clipboard]::GetDataObject();",
+    ...(chemPrefixWin ? psChemCapture(chemPrefixWin) : []),
+    "$blocks=@{",
+    "  'svg'={",
+    "    if($do -eq $null) { return }",
+    "    try {",
+    ...PS_SVG_FORMAT.map((l) => `      ${l}`),
+    "      if($svgFmt) {",
+    "        $d=$do.GetData($svgFmt);",
+    `        if($d -is [string]) { [System.IO.File]::WriteAllText('${svgOut}', $d, [System.Text.Encoding]::UTF8); exit 12 }`,
+    `        if($d -is [byte[]]) { [System.IO.File]::WriteAllBytes('${svgOut}', $d); exit 12 }`,
+    "        if($d -is [System.IO.Stream]) {",
+    "          $ms=New-Object System.IO.MemoryStream; $d.CopyTo($ms);",
+    `          [System.IO.File]::WriteAllBytes('${svgOut}', $ms.ToArray()); exit 12`,
+    "        }",
+    "      }",
+    "    } catch { }",
+    "  };",
+    "  'html'={",
+    "    if($do -eq $null) { return }",
+    "    try {",
+    "      if($do.GetDataPresent([System.Windows.Forms.DataFormats]::Html)) {",
+    "        $html=$do.GetData([System.Windows.Forms.DataFormats]::Html);",
+    "        if($html -is [string] -and $html -match '<svg') {",
+    "          $start=$html.IndexOf('<svg');",
+    "          $end=$html.LastIndexOf('</svg>');",
+    "          if($start -ge 0 -and $end -ge 0 -and $end -gt $start) {",
+    "            $svg=$html.Substring($start, $end-$start+6);",
+    `            [System.IO.File]::WriteAllText('${svgOut}', $svg, [System.Text.Encoding]::UTF8); exit 12`,
+    "          }",
+    "        }",
+    "      }",
+    "    } catch { }",
+    "  };",
+    "  'emf'={",
+    "    if($do -eq $null) { return }",
+    "    if($do.GetDataPresent([System.Windows.Forms.DataFormats]::EnhancedMetafile)) {",
+    "      try {",
+    "        Ensure-Native;",
+    `        $rc=[ClipNative]::Save('${psEscapeSingleQuoted(tmpEmfWin)}');`,
+    "        if($rc -eq 0) { exit 10 }",
+    "      } catch { }",
+    "    }",
+    "  };",
+    "  'png'={",
+    "    $img=[System.Windows.Forms.Clipboard]::GetImage();",
+    "    if($img -ne $null) {",
+    `      $img.Save('${psEscapeSingleQuoted(outPngWin)}', [System.Drawing.Imaging.ImageFormat]::Png);`,
+    "      exit 11",
+    "    }",
+    "  };",
+    "}",
+    "foreach($k in $order) { & $blocks[$k] }",
+    "exit 2",
+  ].join("\n");
+}
+
+// List script: prints "source<TAB>process" and one "format<TAB>type<TAB>bytes"
+// line per format the export script can read.
+function windowsListScript(): string {
+  return [
+    "Add-Type -AssemblyName System.Windows.Forms;",
+    "Add-Type -AssemblyName System.Drawing;",
+    ...PS_NATIVE,
+    "$src=Get-Source;",
+    'if($src) { "source`t$src" }',
+    "$do=[System.Windows.Forms.Clipboard]::GetDataObject();",
+    "if($do -eq $null) { exit 0 }",
+    "try {",
+    ...PS_SVG_FORMAT.map((l) => `  ${l}`),
+    "  if($svgFmt) {",
+    "    $d=$do.GetData($svgFmt); $n=-1;",
+    "    if($d -is [string]) { $n=[System.Text.Encoding]::UTF8.GetByteCount($d) }",
+    "    elseif($d -is [byte[]]) { $n=$d.Length }",
+    "    elseif($d -is [System.IO.Stream]) { $n=$d.Length }",
+    '    if($n -gt 0) { "svg`t$svgFmt`t$n" }',
+    "  }",
+    "} catch { }",
+    "try {",
+    "  if($do.GetDataPresent([System.Windows.Forms.DataFormats]::Html)) {",
+    "    $html=$do.GetData([System.Windows.Forms.DataFormats]::Html);",
+    "    $start=$html.IndexOf('<svg'); $end=$html.LastIndexOf('</svg>');",
+    "    if($start -ge 0 -and $end -gt $start) {",
+    '      "html`tHTML Format (embedded SVG)`t$([System.Text.Encoding]::UTF8.GetByteCount($html.Substring($start, $end-$start+6)))"',
+    "    }",
+    "  }",
+    "} catch { }",
+    "try {",
+    "  if($do.GetDataPresent([System.Windows.Forms.DataFormats]::EnhancedMetafile)) {",
+    "    Ensure-Native; $n=[ClipNative]::EmfSize();",
+    '    if($n -gt 0) { "emf`tEnhancedMetafile`t$n" }',
+    "  }",
+    "} catch { }",
+    "try {",
+    "  $img=[System.Windows.Forms.Clipboard]::GetImage();",
+    "  if($img -ne $null) {",
+    "    $ms=New-Object System.IO.MemoryStream;",
+    "    $img.Save($ms, [System.Drawing.Imaging.ImageFormat]::Png);",
+    '    "png`tBitmap (as PNG)`t$($ms.Length)"',
+    "  }",
+    "} catch { }",
+    "exit 0",
+  ].join("\n");
+}
+
+// Types script: prints "source<TAB>process" and one "type<TAB>format<TAB>bytes"
+// line for every format on the clipboard, including registered ones
+// (ChemDraw's). bytes is -1 when the data has no byte size (e.g. objects the
+// clipboard holds as .NET types) or cannot be read.
+function windowsTypesScript(): string {
+  return [
+    "Add-Type -AssemblyName System.Windows.Forms;",
+    "Add-Type -AssemblyName System.Drawing;",
+    ...PS_NATIVE,
+    "$src=Get-Source;",
+    'if($src) { "source`t$src" }',
+    "$do=[System.Windows.Forms.Clipboard]::GetDataObject();",
+    "if($do -eq $null) { exit 0 }",
+    "foreach($f in $do.GetFormats($false)) {",
+    "  $n=-1;",
+    "  try {",
+    "    if($f -eq 'EnhancedMetafile') { Ensure-Native; $n=[ClipNative]::EmfSize() }",
+    "    else {",
+    "      $d=$do.GetData($f);",
+    "      if($d -is [string]) { $n=[System.Text.Encoding]::UTF8.GetByteCount($d) }",
+    "      elseif($d -is [byte[]]) { $n=$d.Length }",
+    "      elseif($d -is [System.IO.Stream]) { $n=$d.Length }",
+    "    }",
+    "  } catch { }",
+    '  "type`t$f`t$n"',
+    "}",
+    "exit 0",
+  ].join("\n");
+}
+
+// Probe script: prints the name of each export format (svg, html, emf, png)
+// the clipboard could be exported as, without reading image data.
+function windowsProbeScript(): string {
+  return [
+    "Add-Type -AssemblyName System.Windows.Forms;",
+    "$do=[System.Windows.Forms.Clipboard]::GetDataObject();",
+    "if($do -eq $null) { exit 0 }",
+    ...PS_SVG_FORMAT,
+    "if($svgFmt) { 'svg' }",
+    "try {",
+    "  if($do.GetDataPresent([System.Windows.Forms.DataFormats]::Html)) {",
+    "    $html=$do.GetData([System.Windows.Forms.DataFormats]::Html);",
+    "    if($html -is [string] -and $html -match '<svg') { 'html' }",
+    "  }",
+    "} catch { }",
+    "if($do.GetDataPresent([System.Windows.Forms.DataFormats]::EnhancedMetafile)) { 'emf' }",
+    "if([System.Windows.Forms.Clipboard]::ContainsImage()) { 'png' }",
+    "exit 0",
+  ].join("\n");
+}
+
 // Exports the Windows clipboard to files via PowerShell.
 // Returns "svg", "emf", or "png" depending on what was found, or null if nothing.
 async function exportWindowsClipboard(
   outSvgAbs: string,
   outPngAbs: string,
   tmpEmfAbs: string,
+  order: WslFormat[],
+  remembered: Record<string, WslFormat>,
+  chemPrefixAbs: string | null,
 ): Promise<WslExportKind | null> {
   if (!isWSL() || !commandExists("powershell.exe") || !commandExists("wslpath"))
     return null;
 
-  const outSvgWin = wslpathWin(outSvgAbs);
-  const outPngWin = wslpathWin(outPngAbs);
+  // PowerShell writes to hidden siblings that are renamed into place on
+  // success, so an interrupted export never leaves a partial image behind.
+  const partSvgAbs = tempSibling(outSvgAbs);
+  const partPngAbs = tempSibling(outPngAbs);
+
+  const outSvgWin = wslpathWin(partSvgAbs);
+  const outPngWin = wslpathWin(partPngAbs);
   const tmpEmfWin = wslpathWin(tmpEmfAbs);
   if (!outSvgWin || !outPngWin || !tmpEmfWin) return null;
+  const chemPrefixWin = chemPrefixAbs ? wslpathWin(chemPrefixAbs) : null;
 
   await ensureDir(path.dirname(outSvgAbs));
   await ensureDir(path.dirname(outPngAbs));
   await ensureDir(path.dirname(tmpEmfAbs));
 
-  const ps = [
-    "Add-Type -AssemblyName System.Windows.Forms;",
-    "Add-Type -AssemblyName System.Drawing;",
-    "$do=[System.Windows.Forms.Clipboard]::GetDataObject();",
-    "if($do -ne $null) {",
-    "  try {",
-    "    $fmts=$do.GetFormats();",
-    "    $svgFmt=$fmts | Where-Object { $_ -eq 'image/svg+xml' } | Select-Object -First 1;",
-    "    if(-not $svgFmt) { $svgFmt=$fmts | Where-Object { $_ -match 'svg' } | Select-Object -First 1; }",
-    "    if($svgFmt) {",
-    "      $d=$do.GetData($svgFmt);",
-    `      if($d -is [string]) { [System.IO.File]::WriteAllText('${psEscapeSingleQuoted(outSvgWin)}', $d, [System.Text.Encoding]::UTF8); exit 12 }`,
-    `      if($d -is [byte[]]) { [System.IO.File]::WriteAllBytes('${psEscapeSingleQuoted(outSvgWin)}', $d); exit 12 }`,
-    "      if($d -is [System.IO.Stream]) {",
-    "        $ms=New-Object System.IO.MemoryStream; $d.CopyTo($ms);",
-    `        [System.IO.File]::WriteAllBytes('${psEscapeSingleQuoted(outSvgWin)}', $ms.ToArray()); exit 12`,
-    "      }",
-    "    }",
-    "  } catch { }",
-    "  try {",
-    "    if($do.GetDataPresent([System.Windows.Forms.DataFormats]::Html)) {",
-    "      $html=$do.GetData([System.Windows.Forms.DataFormats]::Html);",
-    "      if($html -is [string] -and $html -match '<svg') {",
-    "        $start=$html.IndexOf('<svg');",
-    "        $end=$html.LastIndexOf('</svg>');",
-    "        if($start -ge 0 -and $end -ge 0 -and $end -gt $start) {",
-    "          $svg=$html.Substring($start, $end-$start+6);",
-    `          [System.IO.File]::WriteAllText('${psEscapeSingleQuoted(outSvgWin)}', $svg, [System.Text.Encoding]::UTF8); exit 12`,
-    "        }",
-    "      }",
-    "    }",
-    "  } catch { }",
-    "  if($do.GetDataPresent([System.Windows.Forms.DataFormats]::EnhancedMetafile)) {",
-    "    try {",
-    "      Add-Type -Language CSharp -TypeDefinition @'",
-    "using System;",
-    "using System.IO;",
-    "using System.Runtime.InteropServices;",
-    "public static class ClipEmf {",
-    "  const uint CF_ENHMETAFILE = 14;",
-    '  [DllImport("user32.dll", ExactSpelling=true)] static extern bool OpenClipboard(IntPtr h);',
-    '  [DllImport("user32.dll", ExactSpelling=true)] static extern bool CloseClipboard();',
-    '  [DllImport("user32.dll", ExactSpelling=true)] static extern bool IsClipboardFormatAvailable(uint format);',
-    '  [DllImport("user32.dll", ExactSpelling=true)] static extern IntPtr GetClipboardData(uint format);',
-    '  [DllImport("gdi32.dll",  ExactSpelling=true)] static extern uint GetEnhMetaFileBits(IntPtr hemf, uint cbBuffer, byte[] lpbBuffer);',
-    "  public static int Save(string path) {",
-    "    if (!IsClipboardFormatAvailable(CF_ENHMETAFILE)) return 2;",
-    "    if (!OpenClipboard(IntPtr.Zero)) return 3;",
-    "    IntPtr hemf = GetClipboardData(CF_ENHMETAFILE);",
-    "    CloseClipboard();",
-    "    if (hemf == IntPtr.Zero) return 4;",
-    "    uint size = GetEnhMetaFileBits(hemf, 0, null);",
-    "    if (size == 0) return 5;",
-    "    byte[] buf = new byte[size];",
-    "    if (GetEnhMetaFileBits(hemf, size, buf) != size) return 6;",
-    "    File.WriteAllBytes(path, buf);",
-    "    return 0;",
-    "  }",
-    "}",
-    "'@;",
-    `      $rc=[ClipEmf]::Save('${psEscapeSingleQuoted(tmpEmfWin)}');`,
-    "      if($rc -eq 0) { exit 10 }",
-    "    } catch { }",
-    "  }",
-    "}",
-    "$img=[System.Windows.Forms.Clipboard]::GetImage();",
-    "if($img -ne $null) {",
-    `  $img.Save('${psEscapeSingleQuoted(outPngWin)}', [System.Drawing.Imaging.ImageFormat]::Png);`,
-    "  exit 11",
-    "}",
-    "exit 2",
-  ].join("\n");
-
-  const r = await runText(
-    "powershell.exe",
-    ["-NoProfile", "-STA", "-Command", ps],
-    T_WINCLIP_MS,
+  const ps = windowsExportScript(
+    outSvgWin,
+    outPngWin,
+    tmpEmfWin,
+    order,
+    remembered,
+    chemPrefixWin,
   );
 
-  if (r.code === 12) {
-    const st = await statSafe(outSvgAbs);
-    return st.exists && st.size > 0 ? "svg" : null;
+  try {
+    const r = await POWERSHELL.run(ps, T_WINCLIP_MS);
+
+    if (r.code === 12) {
+      const st = await statSafe(partSvgAbs);
+      if (!st.exists || st.size === 0) return null;
+      await moveFile(partSvgAbs, outSvgAbs);
+      return "svg";
+    }
+    if (r.code === 10) {
+      const st = await statSafe(tmpEmfAbs);
+      return st.exists && st.size > 0 ? "emf" : null;
+    }
+    if (r.code === 11) {
+      const st = await statSafe(partPngAbs);
+      if (!st.exists || st.size === 0) return null;
+      await moveFile(partPngAbs, outPngAbs);
+      return "png";
+    }
+    if (r.code === 2) return null;
+
+    const details = [r.stderr?.trim(), r.stdout?.trim()]
+      .filter(Boolean)
+      .join("\n");
+    throw new Error(`Windows clipboard export failed.\n${details}`.trim());
+  } finally {
+    await removeIfExists(partSvgAbs);
+    await removeIfExists(partPngAbs);
   }
-  if (r.code === 10) {
-    const st = await statSafe(tmpEmfAbs);
-    return st.exists && st.size > 0 ? "emf" : null;
+}
+
+// Every format on the Windows clipboard with its size, under WSL. Null
+// elsewhere.
+async function listWindowsClipboardTypes(): Promise<ClipboardTypeList | null> {
+  if (!isWSL() || !commandExists("powershell.exe")) return null;
+  const r = await POWERSHELL.run(windowsTypesScript(), T_WINCLIP_MS);
+  if (r.code !== 0) {
+    const details = [r.stderr?.trim(), r.stdout?.trim()]
+      .filter(Boolean)
+      .join("\n");
+    throw new Error(`Windows clipboard listing failed.\n${details}`.trim());
   }
-  if (r.code === 11) {
-    const st = await statSafe(outPngAbs);
-    return st.exists && st.size > 0 ? "png" : null;
+  const list: ClipboardTypeList = { kind: "windows", types: [], sizes: {} };
+  for (const line of r.stdout.split(/\r?\n/)) {
+    const [tag, ...rest] = line.split("\t");
+    if (tag === "source" && rest[0]) list.source = rest[0].trim();
+    if (tag === "type" && rest.length === 2) {
+      const size = Number(rest[1]);
+      list.types.push(rest[0]);
+      if (size >= 0) list.sizes![rest[0]] = size;
+    }
   }
-  if (r.code === 2) return null;
-
-  const details = [r.stderr?.trim(), r.stdout?.trim()]
-    .filter(Boolean)
-    .join("\n");
-  throw new Error(`Windows clipboard export failed.\n${details}`.trim());
+  return list;
 }
 
+// What each clipboard offers: the Windows clipboard first under WSL (that is
+// what a paste reads there), then each Linux backend.
 export async function listClipboardTypes(
   prefer: "auto" | "wayland" | "x11",
-): Promise<Array<{ kind: string; types: string[]; error?: string }>> {
-  const results: Array<{ kind: string; types: string[]; error?: string }> = [];
+): Promise<ClipboardTypeList[]> {
+  const results: ClipboardTypeList[] = [];
+  try {
+    const win = await listWindowsClipboardTypes();
+    if (win) results.push(win);
+  } catch (e: any) {
+    results.push({
+      kind: "windows",
+      types: [],
+      error: e?.message ?? String(e),
+    });
+  }
   for (const b of getBackends(prefer)) {
     try {
       const offered = await b.listTypes();
@@ -339,32 +753,103 @@ export async function listClipboardTypes(
   return results;
 }
 
+// Turns the export script's captures (<prefix>.<CHEM_FORMATS index>) into one
+// file per sidecar extension; the first format found for an extension wins.
+async function collectChemSidecars(prefixAbs: string): Promise<Sidecar[]> {
+  const sidecars: Sidecar[] = [];
+  for (const [i, f] of CHEM_FORMATS.entries()) {
+    const raw = `${prefixAbs}.${i}`;
+    try {
+      const st = await statSafe(raw);
+      if (!st.exists || st.size === 0) continue;
+      if (sidecars.some((c) => c.ext === f.ext)) continue;
+      const abs = `${prefixAbs}.${f.ext}`;
+      if (f.mdlct) {
+        await fs.writeFile(abs, decodeMdlct(await fs.readFile(raw)), "latin1");
+      } else {
+        await moveFile(raw, abs);
+      }
+      sidecars.push({ ext: f.ext, abs });
+    } finally {
+      await removeIfExists(raw);
+    }
+  }
+  return sidecars;
+}
+
+async function removeSidecars(sidecars: Sidecar[]): Promise<void> {
+  for (const c of sidecars) await removeIfExists(c.abs);
+}
+
 // planWslWindowsClipboard: runs the PS export synchronously (raw bytes land on
 // disk), then returns a plan. convert() does only the emf2svg-conv / Inkscape
 // work in the background — the slow file-I/O part is already done.
+// With only set, no other format is tried.
 export async function planWslWindowsClipboard(
   makeOutAbs: (ext: string) => string,
   finalizeSvg: boolean,
-  config: { emfScalePercent: number; finalizeEmfWithInkscape: boolean },
+  config: ConvertConfig,
   log: (msg: string) => void,
+  formats: FormatSelection & { only?: WslFormat } = {},
 ): Promise<ClipboardPlan | null> {
   if (!isWSL()) return null;
 
+  const order = formats.only
+    ? [formats.only]
+    : applyFormatRules(WSL_FORMATS, wslKey, formats.rules ?? NO_RULES);
+  if (!order.length) return null;
+
   const outSvgAbs = makeOutAbs("svg");
   const outPngAbs = makeOutAbs("png");
   const tmpEmfAbs = path.join(os.tmpdir(), `pastevector_${nonce()}.emf`);
 
-  const kind = await exportWindowsClipboard(outSvgAbs, outPngAbs, tmpEmfAbs);
-  if (!kind) return null;
+  // Remembered Windows choices are keyed "windows:<process name>".
+  const byOwner: Record<string, WslFormat> = {};
+  for (const [source, f] of Object.entries(formats.remembered ?? {})) {
+    if (source.startsWith("windows:") && WSL_FORMATS.includes(f as WslFormat))
+      byOwner[source.slice("windows:".length)] = f as WslFormat;
+  }
+
+  const chemPrefixAbs = config.keepNativeStructure
+    ? path.join(os.tmpdir(), `pastevector_${nonce()}.chem`)
+    : null;
+  const kind = await exportWindowsClipboard(
+    outSvgAbs,
+    outPngAbs,
+    tmpEmfAbs,
+    order,
+    formats.only ? {} : byOwner,
+    chemPrefixAbs,
+  );
+  const sidecars = chemPrefixAbs
+    ? await collectChemSidecars(chemPrefixAbs)
+    : [];
+  // Both names were reserved; at most one is used.
+  if (kind !== "svg" && kind !== "emf") releasePath(outSvgAbs);
+  if (kind !== "png") releasePath(outPngAbs);
+  if (!kind) {
+    await removeSidecars(sidecars);
+    return null;
+  }
+  if (sidecars.length) {
+    log(`native structure: ${sidecars.map((c) => c.ext).join(", ")}`);
+  }
 
   if (kind === "svg") {
+    // Fitting rewrites the file in place, so the original is kept in memory
+    // and restored first; a retry then starts from it too.
+    const raw = await fs.readFile(outSvgAbs);
     return {
       outAbs: outSvgAbs,
       handler: "wsl-svg",
       usedType: "windows/svg",
       convert: async () => {
-        if (finalizeSvg) await finalizeSvgWithInkscape(outSvgAbs);
+        await writeBytes(outSvgAbs, raw);
+        if (finalizeSvg) await fitSvgCanvas(outSvgAbs, config.fitEngine, log);
       },
+      dispose: () => removeSidecars(sidecars),
+      sidecars,
+      original: { ext: "svg", read: async () => raw },
     };
   }
 
@@ -373,19 +858,21 @@ export async function planWslWindowsClipboard(
       outAbs: outSvgAbs,
       handler: "wsl-emf",
       usedType: "windows/emf",
-      convert: async () => {
-        try {
-          await convertEmfToSvg(
-            tmpEmfAbs,
-            outSvgAbs,
-            config.emfScalePercent,
-            config.finalizeEmfWithInkscape,
-            log,
-          );
-        } finally {
-          await removeIfExists(tmpEmfAbs);
-        }
+      convert: () =>
+        convertEmfToSvg(
+          tmpEmfAbs,
+          outSvgAbs,
+          config.emfScalePercent,
+          config.finalizeEmfWithInkscape,
+          log,
+          config.fitEngine,
+        ),
+      dispose: async () => {
+        await removeIfExists(tmpEmfAbs);
+        await removeSidecars(sidecars);
       },
+      sidecars,
+      original: { ext: "emf", read: () => fs.readFile(tmpEmfAbs) },
     };
   }
 
@@ -395,5 +882,258 @@ export async function planWslWindowsClipboard(
     handler: "wsl-png",
     usedType: "windows/png",
     convert: async () => {},
+    dispose: () => removeSidecars(sidecars),
+    sidecars,
+  };
+}
+
+// Whether planning would find an image format the priority rules allow,
+// checked from the offered types alone: nothing is exported or read. Under WSL
+// the Windows clipboard is asked, otherwise the Linux backends.
+export async function clipboardHasImage(
+  prefer: "auto" | "wayland" | "x11",
+  rules: FormatRules,
+  log: (msg: string) => void,
+): Promise<boolean> {
+  if (isWSL() && commandExists("powershell.exe")) {
+    const r = await POWERSHELL.run(windowsProbeScript(), T_WINCLIP_MS);
+    if (r.code === 0) {
+      const present = r.stdout.split(/\r?\n/).map((l) => l.trim());
+      const order = applyFormatRules(WSL_FORMATS, wslKey, rules);
+      if (order.some((f) => present.includes(f))) return true;
+    } else {
+      log(`warn windows clipboard probe failed: ${r.stderr?.trim() ?? ""}`);
+    }
+  }
+  for (const backend of getBackends(prefer)) {
+    try {
+      if (linuxCandidates(await backend.listTypes(), rules).length) return true;
+    } catch {
+      /* try the next backend */
+    }
+  }
+  return false;
+}
+
+function wslKey(f: WslFormat): FormatKey {
+  return { name: f, types: WSL_FORMAT_TYPES[f] };
+}
+
+async function listWindowsFormats(
+  finalizeSvg: boolean,
+  config: ConvertConfig,
+  rules: FormatRules,
+  log: (msg: string) => void,
+): Promise<ClipboardOffer | null> {
+  if (!isWSL() || !commandExists("powershell.exe")) return null;
+  const r = await POWERSHELL.run(windowsListScript(), T_WINCLIP_MS);
+  if (r.code !== 0) {
+    log(`warn windows format list failed: ${r.stderr?.trim() ?? ""}`);
+    return null;
+  }
+
+  let sourceName: string | null = null;
+  const options: ClipboardFormatOption[] = [];
+  for (const line of (r.stdout || "").split(/\r?\n/)) {
+    const [key, type, size] = line.split("\t");
+    if (key === "source" && type) sourceName = type;
+    const f = WSL_FORMATS.find((k) => k === key);
+    if (!f || !type || !(+size > 0)) continue;
+    options.push({
+      format: f,
+      type,
+      size: +size,
+      ext: f === "png" ? "png" : "svg",
+      plan: (makeOutAbs) =>
+        planWslWindowsClipboard(makeOutAbs, finalizeSvg, config, log, {
+          only: f,
+        }),
+    });
+  }
+  const allowed = applyFormatRules(
+    options,
+    (o) => wslKey(o.format as WslFormat),
+    rules,
+  );
+  if (!allowed.length) return null;
+  return {
+    source: sourceName ? `windows:${sourceName}` : null,
+    sourceName,
+    options: allowed,
   };
 }
+
+// Puts the given sidecar files back on the Windows clipboard under their
+// native format names, so ChemDraw can paste the editable structure. SMILES is
+// also set as plain text.
+export async function copyStructureToWindowsClipboard(
+  files: Sidecar[],
+): Promise<void> {
+  if (!isWSL() || !commandExists("powershell.exe"))
+    throw new Error("Copying structures back needs WSL with powershell.exe.");
+
+  const temps: string[] = [];
+  const lines = [
+    "Add-Type -AssemblyName System.Windows.Forms;",
+    "$do=New-Object System.Windows.Forms.DataObject;",
+  ];
+  try {
+    for (const f of CHEM_FORMATS) {
+      const file = files.find((c) => c.ext === f.ext);
+      if (!file) continue;
+      let abs = file.abs;
+      if (f.mdlct) {
+        abs = path.join(os.tmpdir(), `pastevector_${nonce()}.mdlct`);
+        temps.push(abs);
+        await fs.writeFile(
+          abs,
+          encodeMdlct(await fs.readFile(file.abs, "latin1")),
+        );
+      }
+      const win = wslpathWin(abs);
+      if (!win) throw new Error(`Cannot map ${abs} to a Windows path.`);
+      const name = psEscapeSingleQuoted(f.names[0]);
+      const src = psEscapeSingleQuoted(win);
+      lines.push(
+        f.text
+          ? `$do.SetData('${name}', [System.IO.File]::ReadAllText('${src}'));`
+          : `$do.SetData('${name}', (New-Object System.IO.MemoryStream(,[System.IO.File]::ReadAllBytes('${src}'))));`,
+      );
+      if (f.ext === "smi")
+        lines.push(`$do.SetText([System.IO.File]::ReadAllText('${src}'));`);
+    }
+    lines.push(
+      "[System.Windows.Forms.Clipboard]::SetDataObject($do, $true);",
+      "exit 0",
+    );
+
+    const r = await POWERSHELL.run(lines.join("\n"), T_WINCLIP_MS);
+    if (r.code !== 0) {
+      const details = [r.stderr?.trim(), r.stdout?.trim()]
+        .filter(Boolean)
+        .join("\n");
+      throw new Error(
+        `Setting the Windows clipboard failed.\n${details}`.trim(),
+      );
+    }
+  } finally {
+    for (const t of temps) await removeIfExists(t);
+  }
+}
+
+// ── Snapshots ─────────────────────────────────────────────────────────────────
+
+// Snapshot script: writes every format on the clipboard to dirWin (file name
+// = the escaped format name) and prints "source\t<app>" and
+// "type\t<format>\t<size>\t<file>" lines. EMF is read through ClipNative,
+// images (Bitmap) are saved as PNG.
+function windowsSnapshotScript(dirWin: string): string {
+  const dir = psEscapeSingleQuoted(dirWin);
+  return [
+    "Add-Type -AssemblyName System.Windows.Forms;",
+    "Add-Type -AssemblyName System.Drawing;",
+    ...PS_NATIVE,
+    ...PS_SAVE_DATA,
+    "$src=Get-Source;",
+    'if($src) { "source`t$src" }',
+    "$do=[System.Windows.Forms.Clipboard]::GetDataObject();",
+    "if($do -eq $null) { exit 0 }",
+    "foreach($f in $do.GetFormats($false)) {",
+    "  $file=[Uri]::EscapeDataString($f);",
+    `  $p=Join-Path '${dir}' $file;`,
+    "  try {",
+    "    if($f -eq 'EnhancedMetafile') { Ensure-Native; [void][ClipNative]::Save($p) }",
+    "    else {",
+    "      $d=$do.GetData($f);",
+    "      if($d -is [System.Drawing.Image]) { $d.Save($p, [System.Drawing.Imaging.ImageFormat]::Png) }",
+    "      else { Save-ClipData $d $p }",
+    "    }",
+    "  } catch { }",
+    '  if(Test-Path $p) { "type`t$f`t$((Get-Item $p).Length)`t$file" }',
+    "}",
+    "exit 0",
+  ].join("\n");
+}
+
+// Saves the Windows clipboard (WSL only) to dir as a fixture. Null when
+// there is no Windows clipboard.
+async function snapshotWindowsClipboard(
+  dir: string,
+): Promise<SnapshotManifest | null> {
+  if (!isWSL() || !commandExists("powershell.exe")) return null;
+  await ensureDir(dir);
+  const dirWin = wslpathWin(dir);
+  if (!dirWin) return null;
+
+  const r = await POWERSHELL.run(windowsSnapshotScript(dirWin), T_WINCLIP_MS);
+  if (r.code !== 0) {
+    const details = [r.stderr?.trim(), r.stdout?.trim()]
+      .filter(Boolean)
+      .join("\n");
+    throw new Error(`Windows clipboard snapshot failed.\n${details}`.trim());
+  }
+  const manifest: SnapshotManifest = {
+    backend: "windows",
+    source: null,
+    created: new Date().toISOString(),
+    types: [],
+  };
+  for (const line of r.stdout.split(/\r?\n/)) {
+    const [tag, ...rest] = line.split("\t");
+    if (tag === "source" && rest[0]) manifest.source = rest[0].trim();
+    if (tag === "type" && rest.length === 3) {
+      const [type, size, file] = rest;
+      manifest.types.push({ type, size: Number(size), file: file.trim() });
+    }
+  }
+  await writeManifest(dir, manifest);
+  return manifest;
+}
+
+// Saves every clipboard the platform has (the Windows clipboard under WSL,
+// then each Linux backend) to its own subfolder of dir, named after the
+// backend. Each subfolder works as a FixtureBackend directory. Returns the
+// manifests of the non-empty ones.
+export async function snapshotClipboard(
+  dir: string,
+  prefer: "auto" | "wayland" | "x11",
+  log: (msg: string) => void,
+): Promise<SnapshotManifest[]> {
+  const manifests: SnapshotManifest[] = [];
+  try {
+    const win = await snapshotWindowsClipboard(path.join(dir, "windows"));
+    if (win?.types.length) manifests.push(win);
+  } catch (e: any) {
+    log(`warn windows snapshot failed: ${e?.message ?? String(e)}`);
+  }
+  for (const b of getBackends(prefer)) {
+    try {
+      const m = await recordClipboard(b, path.join(dir, b.kind));
+      if (m.types.length) manifests.push(m);
+    } catch (e: any) {
+      log(`warn ${b.kind} snapshot failed: ${e?.message ?? String(e)}`);
+    }
+  }
+  return manifests;
+}
+
+// ── Format listing ────────────────────────────────────────────────────────────
+
+// Everything the clipboard offers that a handler can process, for "Paste As…".
+// The Windows clipboard wins under WSL, as in a normal paste. Excluded formats
+// are left out and the rest follow the priority order.
+export async function listClipboardFormats(
+  prefer: "auto" | "wayland" | "x11",
+  finalizeSvg: boolean,
+  config: ConvertConfig,
+  rules: FormatRules,
+  log: (msg: string) => void,
+): Promise<ClipboardOffer | null> {
+  try {
+    const win = await listWindowsFormats(finalizeSvg, config, rules, log);
+    if (win) return win;
+  } catch (e: any) {
+    log(`warn wsl clipboard failed: ${e?.message ?? String(e)}`);
+  }
+  return listLinuxFormats(prefer, finalizeSvg, config, rules, log);
+}
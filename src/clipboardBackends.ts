@@ -0,0 +1,251 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+
+import { commandExists, ensureDir, runBin, runText } from "./util";
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+// A clipboard type as offered (raw, e.g. "text/plain;charset=utf-8") and
+// without parameters (base), which handlers match on.
+export type OfferedType = { raw: string; base: string };
+
+// A source of Linux clipboard data. kind names it in usedType and logs.
+export type ClipboardBackend = {
+  kind: string;
+  listTypes(): Promise<OfferedType[]>;
+  // Throws when the type cannot be read or is empty.
+  readType(rawType: string): Promise<Buffer>;
+  // "" when the clipboard holds no text.
+  readText(): Promise<string>;
+};
+
+// Returns the backend, or null when it is not available here.
+export type ClipboardBackendFactory = () => ClipboardBackend | null;
+
+type Registration = { kind: string; create: ClipboardBackendFactory };
+
+// manifest.json of a recorded clipboard: the backend it came from, the
+// application that filled the clipboard (when known) and each offered type
+// with its size and the file holding its bytes.
+export type SnapshotManifest = {
+  backend: string;
+  source: string | null;
+  created: string;
+  types: { type: string; size: number; file: string }[];
+};
+
+// ── Constants ─────────────────────────────────────────────────────────────────
+
+const T_LIST_MS = 1_200;
+const T_READ_MS = 6_000;
+
+// Types tried, in order, for a clipboard's plain text.
+const TEXT_TYPES = ["text/plain;charset=utf-8", "UTF8_STRING", "text/plain"];
+
+export const MANIFEST_FILE = "manifest.json";
+
+// Windows clipboard format names as the MIME types Linux handlers match, so
+// snapshots of the Windows clipboard work as fixtures.
+const WINDOWS_TYPE_BASES: Record<string, string> = {
+  EnhancedMetafile: "image/emf",
+  PNG: "image/png",
+  Bitmap: "image/png",
+  "HTML Format": "text/html",
+  UnicodeText: "text/plain",
+};
+
+// ── Command-line backends ─────────────────────────────────────────────────────
+
+// wl-paste (Wayland) or xclip (X11).
+class CommandBackend implements ClipboardBackend {
+  constructor(public kind: "wayland" | "x11") {}
+
+  async listTypes(): Promise<OfferedType[]> {
+    if (this.kind === "wayland") {
+      const r = await runText("wl-paste", ["--list-types"], T_LIST_MS);
+      return (r.stdout || "")
+        .split(/\r?\n/)
+        .map((s) => s.trim())
+        .filter(Boolean)
+        .map((raw) => ({ raw, base: raw.split(";")[0].trim() }));
+    }
+    const r = await runText(
+      "xclip",
+      ["-selection", "clipboard", "-o", "-t", "TARGETS"],
+      T_LIST_MS,
+    );
+    return (r.stdout || "")
+      .split(/\r?\n/)
+      .map((s) => s.trim())
+      .filter(Boolean)
+      .map((raw) => ({ raw, base: raw }));
+  }
+
+  async readType(rawType: string): Promise<Buffer> {
+    const r =
+      this.kind === "wayland"
+        ? await runBin("wl-paste", ["-t", rawType], T_READ_MS)
+        : await runBin(
+            "xclip",
+            ["-selection", "clipboard", "-o", "-t", rawType],
+            T_READ_MS,
+          );
+    if (r.code !== 0 || r.bytes.length === 0)
+      throw new Error(`Clipboard read failed (${rawType}).`);
+    return r.bytes;
+  }
+
+  async readText(): Promise<string> {
+    const r =
+      this.kind === "wayland"
+        ? await runText("wl-paste", ["--no-newline"], T_READ_MS)
+        : await runText("xclip", ["-selection", "clipboard", "-o"], T_READ_MS);
+    return r.code === 0 ? r.stdout : "";
+  }
+}
+
+// ── Fixture backend ───────────────────────────────────────────────────────────
+
+// Serves a recorded clipboard from dir: the types listed in its manifest.json
+// (see recordClipboard), or without one each file as one type, named by
+// encodeURIComponent(raw type) and offered in file name order.
+export class FixtureBackend implements ClipboardBackend {
+  constructor(
+    private readonly dir: string,
+    public kind = "fixture",
+  ) {}
+
+  private async manifest(): Promise<SnapshotManifest | null> {
+    try {
+      const text = await fs.readFile(
+        path.join(this.dir, MANIFEST_FILE),
+        "utf8",
+      );
+      return JSON.parse(text);
+    } catch {
+      return null;
+    }
+  }
+
+  async listTypes(): Promise<OfferedType[]> {
+    const m = await this.manifest();
+    if (m) {
+      const bases = m.backend === "windows" ? WINDOWS_TYPE_BASES : {};
+      return m.types.map(({ type }) => ({
+        raw: type,
+        base: bases[type] ?? type.split(";")[0].trim(),
+      }));
+    }
+    const names = (await fs.readdir(this.dir))
+      .filter((n) => n !== MANIFEST_FILE)
+      .sort();
+    return names.map((name) => {
+      const raw = decodeURIComponent(name);
+      return { raw, base: raw.split(";")[0].trim() };
+    });
+  }
+
+  async readType(rawType: string): Promise<Buffer> {
+    const m = await this.manifest();
+    const file =
+      m?.types.find((t) => t.type === rawType)?.file ??
+      encodeURIComponent(rawType);
+    let bytes: Buffer;
+    try {
+      bytes = await fs.readFile(path.join(this.dir, file));
+    } catch {
+      throw new Error(`Clipboard read failed (${rawType}).`);
+    }
+    if (!bytes.length) throw new Error(`Clipboard read failed (${rawType}).`);
+    return bytes;
+  }
+
+  async readText(): Promise<string> {
+    const offered = await this.listTypes();
+    const text =
+      TEXT_TYPES.map((t) => offered.find((o) => o.raw === t)).find(Boolean) ??
+      offered.find((o) => o.base === "text/plain");
+    return text ? (await this.readType(text.raw)).toString("utf8") : "";
+  }
+}
+
+// Saves everything backend offers to dir, with a manifest, so a
+// FixtureBackend can serve it. Types that cannot be read are skipped.
+export async function recordClipboard(
+  backend: ClipboardBackend,
+  dir: string,
+): Promise<SnapshotManifest> {
+  await ensureDir(dir);
+  const manifest: SnapshotManifest = {
+    backend: backend.kind,
+    source: null,
+    created: new Date().toISOString(),
+    types: [],
+  };
+  for (const t of await backend.listTypes()) {
+    try {
+      const bytes = await backend.readType(t.raw);
+      const file = encodeURIComponent(t.raw);
+      await fs.writeFile(path.join(dir, file), bytes);
+      manifest.types.push({ type: t.raw, size: bytes.length, file });
+    } catch {
+      /* not readable as data (e.g. TARGETS, TIMESTAMP) */
+    }
+  }
+  await writeManifest(dir, manifest);
+  return manifest;
+}
+
+export async function writeManifest(
+  dir: string,
+  manifest: SnapshotManifest,
+): Promise<void> {
+  await fs.writeFile(
+    path.join(dir, MANIFEST_FILE),
+    `${JSON.stringify(manifest, null, 2)}\n`,
+  );
+}
+
+// ── Registry ──────────────────────────────────────────────────────────────────
+
+// Backends in the order they are tried. Later registrations go first.
+const REGISTRY: Registration[] = [
+  {
+    kind: "wayland",
+    create: () =>
+      process.env.WAYLAND_DISPLAY && commandExists("wl-paste")
+        ? new CommandBackend("wayland")
+        : null,
+  },
+  {
+    kind: "x11",
+    create: () => (commandExists("xclip") ? new CommandBackend("x11") : null),
+  },
+];
+
+// Adds a backend that is tried before the built-in ones (e.g. a
+// FixtureBackend in tests). dispose() removes it again.
+export function registerClipboardBackend(
+  kind: string,
+  create: ClipboardBackendFactory,
+): { dispose: () => void } {
+  const reg = { kind, create };
+  REGISTRY.unshift(reg);
+  return {
+    dispose: () => {
+      const i = REGISTRY.indexOf(reg);
+      if (i >= 0) REGISTRY.splice(i, 1);
+    },
+  };
+}
+
+// The available backends, the preferred kind first ("auto": registry order).
+export function getBackends(prefer: string): ClipboardBackend[] {
+  const ordered = [
+    ...REGISTRY.filter((r) => r.kind === prefer),
+    ...REGISTRY.filter((r) => r.kind !== prefer),
+  ];
+  return ordered
+    .map((r) => r.create())
+    .filter((b): b is ClipboardBackend => !!b);
+}
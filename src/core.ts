@@ -0,0 +1,287 @@
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+
+import {
+  copyFileAtomic,
+  expandTemplate,
+  isWSL,
+  nonce,
+  releasePath,
+  removeIfExists,
+  reserveFreePath,
+  statSafe,
+  withNumericSuffix,
+} from "./util";
+import { looksLikeSvgText, writeSvgText, fitSvgCanvas } from "./svg";
+import {
+  clipboardHasImage,
+  planLinuxClipboard,
+  planWslWindowsClipboard,
+  ClipboardPlan,
+  ConvertConfig,
+  FormatChoiceMap,
+} from "./clipboard";
+import { placeHashedOutput } from "./dedup";
+import { FormatRules } from "./priority";
+import { templateNeedsSize } from "./links";
+import { SIDECAR_EXTS, sidecarPath } from "./chem";
+import { findOriginal, saveOriginal } from "./originals";
+
+// The clipboard → image pipeline without VS Code: planning, output naming and
+// placement. The extension fills CoreOptions from the pasteVector.* settings,
+// the CLI from its flags.
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export type ClipboardBackendPreference = "auto" | "wayland" | "x11";
+
+export type CoreOptions = ConvertConfig & {
+  preferBackend: ClipboardBackendPreference;
+  destinationTemplate: string;
+  finalizeSvg: boolean;
+  deduplicate: boolean;
+  formatPriority: FormatRules;
+  keepOriginals: boolean;
+  // pasteVector.linkTemplate; only whether it uses the image size matters.
+  linkTemplate: string;
+};
+
+// Where the files of one paste go. In hash mode (${contentHash} or dedup)
+// makeOutAbs returns a staging path; the final name is picked after
+// conversion. linkAfterConversion: the link can only be written once
+// conversion finishes (hash mode, or a link template using the image size).
+export type PasteTarget = {
+  docDir: string;
+  hashMode: boolean;
+  linkAfterConversion: boolean;
+  makeFinalAbs: (ext: string, contentHash: string, n: number) => string;
+  makeOutAbs: (ext: string) => string;
+};
+
+// Structure files a paste may save next to its image (img.svg → img.cdx,
+// ...); their names are reserved with the image's.
+function sidecarsOf(imageAbs: string): string[] {
+  return SIDECAR_EXTS.map((ext) => sidecarPath(imageAbs, ext));
+}
+
+function nowSec() {
+  return Math.floor(Date.now() / 1000).toString();
+}
+
+// ── Output paths ──────────────────────────────────────────────────────────────
+
+// A temporary file for output whose final name depends on its content.
+export function stagingPath(ext: string): string {
+  return path.join(os.tmpdir(), `pastevector_${nonce()}.stage.${ext}`);
+}
+
+export function pasteTarget(docPath: string, s: CoreOptions): PasteTarget {
+  const tpl = s.destinationTemplate;
+  const hashMode = s.deduplicate || tpl.includes("${contentHash}");
+  const usesCounter = tpl.includes("${counter}");
+  const docDir = path.dirname(docPath);
+  const docBase = path.basename(docPath, path.extname(docPath));
+  const unixTime = nowSec();
+
+  // n-th candidate name: ${counter} = n + 1 when the template uses it,
+  // otherwise an _n suffix before the extension.
+  const makeFinalAbs = (ext: string, contentHash: string, n: number) => {
+    const abs = path.join(
+      docDir,
+      expandTemplate(tpl, {
+        documentBaseName: docBase,
+        unixTime,
+        fileExtName: ext,
+        contentHash,
+        counter: String(n + 1),
+      }),
+    );
+    return usesCounter ? abs : withNumericSuffix(abs, n);
+  };
+  const makeOutAbs = hashMode
+    ? stagingPath
+    : (ext: string) =>
+        reserveFreePath((n) => makeFinalAbs(ext, "", n), sidecarsOf);
+
+  return {
+    docDir,
+    hashMode,
+    linkAfterConversion: hashMode || templateNeedsSize(s.linkTemplate),
+    makeFinalAbs,
+    makeOutAbs,
+  };
+}
+
+// ── Planning ──────────────────────────────────────────────────────────────────
+
+// Returns a plan for the first usable image format on the clipboard, or null
+// when it should be pasted as ordinary text. clipText is the clipboard's plain
+// text, as the caller can read it. A format remembered for the clipboard's
+// source application is tried first, then the format priority rules decide.
+export async function planClipboard(
+  s: CoreOptions,
+  clipText: string,
+  target: PasteTarget,
+  log: (msg: string) => void,
+  remembered: FormatChoiceMap = {},
+): Promise<ClipboardPlan | null> {
+  const t = clipText.trim();
+
+  // SVG text / data-URI in clipboard — written during conversion
+  if (t && looksLikeSvgText(t)) {
+    try {
+      const outSvgAbs = target.makeOutAbs("svg");
+      let raw: Buffer | null = null;
+      return {
+        outAbs: outSvgAbs,
+        handler: "svg-text",
+        usedType: "text",
+        convert: async () => {
+          await writeSvgText(outSvgAbs, t);
+          raw = await fs.readFile(outSvgAbs);
+          if (s.finalizeSvg) await fitSvgCanvas(outSvgAbs, s.fitEngine, log);
+        },
+        original: { ext: "svg", read: async () => raw },
+      };
+    } catch (e: any) {
+      log(`warn svg-text failed: ${e?.message ?? String(e)}`);
+    }
+  }
+
+  // WSL → Windows clipboard (SVG, EMF, PNG)
+  // Must run before the plain-text whitespace check: Windows apps (e.g.
+  // ChemDraw) place text alongside EMF on the clipboard; readText() returns
+  // that text in modern VS Code + WSL, so the whitespace check would
+  // short-circuit before we ever reach the Windows clipboard.
+  // PS extraction runs synchronously so we know the path and type; conversion
+  // (emf2svg-conv / Inkscape) runs later.
+  try {
+    const plan = await planWslWindowsClipboard(
+      target.makeOutAbs,
+      s.finalizeSvg,
+      s,
+      log,
+      { remembered, rules: s.formatPriority },
+    );
+    if (plan) return { ...plan, text: clipText };
+  } catch (e: any) {
+    log(`warn wsl clipboard failed: ${e?.message ?? String(e)}`);
+  }
+
+  // Plain text with whitespace → default paste
+  if (t && /\s/.test(t)) return null;
+
+  // Linux clipboard (Wayland / X11)
+  // Type listing runs synchronously so we know the path and extension; byte
+  // read and conversion run later.
+  try {
+    const plan = await planLinuxClipboard(
+      s.preferBackend,
+      target.makeOutAbs,
+      s.finalizeSvg,
+      s,
+      log,
+      { remembered, rules: s.formatPriority },
+    );
+    return plan && { ...plan, text: clipText };
+  } catch (e: any) {
+    log(`warn linux clipboard failed: ${e?.message ?? String(e)}`);
+  }
+  return null;
+}
+
+// Whether planClipboard could find an image, cheaply: the clipboard's types
+// are checked, but nothing is exported or converted. For deciding whether to
+// offer a paste before the user picks it.
+export async function clipboardMayHaveImage(
+  s: CoreOptions,
+  clipText: string,
+  log: (msg: string) => void,
+): Promise<boolean> {
+  const t = clipText.trim();
+  if (t && looksLikeSvgText(t)) return true;
+  // Under WSL text does not rule out an image: see planClipboard.
+  if (t && /\s/.test(t) && !isWSL()) return false;
+  return clipboardHasImage(s.preferBackend, s.formatPriority, log);
+}
+
+// ── Output ────────────────────────────────────────────────────────────────────
+
+async function anyExists(paths: string[]): Promise<boolean> {
+  for (const p of paths) if ((await statSafe(p)).exists) return true;
+  return false;
+}
+
+// Copies the plan's native structure files next to outAbs (img.svg →
+// img.cdx, ...) and caches its original for re-conversion. With keepExisting
+// (outAbs may be an earlier paste's image, reused by dedup), structure files
+// or an original already kept for outAbs belong to that paste and are left
+// as they are. A failure here does not fail the paste.
+export async function saveExtras(
+  plan: ClipboardPlan,
+  outAbs: string,
+  s: CoreOptions,
+  log: (msg: string) => void,
+  keepExisting = false,
+): Promise<void> {
+  let sidecars = plan.sidecars ?? [];
+  if (
+    sidecars.length &&
+    keepExisting &&
+    (await anyExists(sidecarsOf(outAbs)))
+  ) {
+    log(`sidecars skipped: ${outAbs} already has structure files`);
+    sidecars = [];
+  }
+  for (const c of sidecars) {
+    const to = sidecarPath(outAbs, c.ext);
+    try {
+      await copyFileAtomic(c.abs, to);
+      log(`sidecar -> ${to}`);
+    } catch (e: any) {
+      log(`warn sidecar ${c.ext} failed: ${e?.message ?? String(e)}`);
+    }
+  }
+  if (!s.keepOriginals || !plan.original) return;
+  if (keepExisting && (await findOriginal(outAbs))) {
+    log(`original skipped: ${outAbs} already has one`);
+    return;
+  }
+  try {
+    const bytes = await plan.original.read();
+    if (bytes) await saveOriginal(outAbs, plan.original.ext, bytes);
+  } catch (e: any) {
+    log(`warn original cache failed: ${e?.message ?? String(e)}`);
+  }
+}
+
+// Removes the output of a paste whose link is not kept and frees its name.
+export async function discardOutput(plan: ClipboardPlan): Promise<void> {
+  await removeIfExists(plan.outAbs);
+  releasePath(plan.outAbs);
+}
+
+// Puts the converted plan.outAbs where its link will point and saves its
+// extras. In hash mode the final name comes from the content (an identical
+// existing file is reused with deduplicate on, keeping its extras); otherwise
+// plan.outAbs stays.
+export async function placeOutput(
+  plan: ClipboardPlan,
+  target: PasteTarget,
+  s: CoreOptions,
+  log: (msg: string) => void,
+): Promise<string> {
+  const ext = path.extname(plan.outAbs).slice(1);
+  const outAbs = target.hashMode
+    ? await placeHashedOutput(
+        plan.outAbs,
+        (contentHash, n) => target.makeFinalAbs(ext, contentHash, n),
+        s.deduplicate,
+        log,
+        sidecarsOf,
+      )
+    : plan.outAbs;
+  await saveExtras(plan, outAbs, s, log, target.hashMode);
+  return outAbs;
+}
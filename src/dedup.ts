@@ -0,0 +1,92 @@
+import * as crypto from "crypto";
+import * as fs from "fs/promises";
+import * as path from "path";
+
+import {
+  ensureDir,
+  moveFile,
+  removeIfExists,
+  reserveFreePath,
+  statSafe,
+} from "./util";
+
+// Length of the ${contentHash} template variable (hex digits of SHA-256).
+export const CONTENT_HASH_LEN = 12;
+
+export async function hashFile(p: string): Promise<string> {
+  const bytes = await fs.readFile(p);
+  return crypto.createHash("sha256").update(bytes).digest("hex");
+}
+
+// Returns a file in dir with the same extension and identical content, or null.
+// Sizes are compared first so only candidates that can match get hashed.
+export async function findDuplicate(
+  dir: string,
+  ext: string,
+  hash: string,
+  size: number,
+): Promise<string | null> {
+  let entries: string[];
+  try {
+    entries = await fs.readdir(dir);
+  } catch {
+    return null;
+  }
+  for (const name of entries.sort()) {
+    if (path.extname(name).toLowerCase() !== `.${ext.toLowerCase()}`) continue;
+    const abs = path.join(dir, name);
+    try {
+      const st = await fs.stat(abs);
+      if (!st.isFile() || st.size !== size) continue;
+      if ((await hashFile(abs)) === hash) return abs;
+    } catch {
+      /* ignore */
+    }
+  }
+  return null;
+}
+
+// Moves a converted file from its staging path to the path derived from its
+// content hash (makeFinalAbs(hash, n) is the n-th collision-free candidate).
+// With dedupe, an identical file already in the destination folder is reused
+// and the staged file is discarded. companions: see reserveFreePath. Returns
+// the final path.
+export async function placeHashedOutput(
+  stagedAbs: string,
+  makeFinalAbs: (contentHash: string, n: number) => string,
+  dedupe: boolean,
+  log?: (msg: string) => void,
+  companions?: (p: string) => string[],
+): Promise<string> {
+  const hash = await hashFile(stagedAbs);
+  const shortHash = hash.slice(0, CONTENT_HASH_LEN);
+  const firstAbs = makeFinalAbs(shortHash, 0);
+  const ext = path.extname(firstAbs).slice(1);
+
+  // Same name from ${contentHash} and same bytes: nothing to write.
+  if (
+    (await statSafe(firstAbs)).exists &&
+    (await hashFile(firstAbs)) === hash
+  ) {
+    await removeIfExists(stagedAbs);
+    return firstAbs;
+  }
+
+  if (dedupe) {
+    const { size } = await fs.stat(stagedAbs);
+    const dup = await findDuplicate(path.dirname(firstAbs), ext, hash, size);
+    if (dup) {
+      await removeIfExists(stagedAbs);
+      if (log) log(`dedup: identical content already in ${dup}`);
+      return dup;
+    }
+  }
+
+  const finalAbs = reserveFreePath(
+    (n) => makeFinalAbs(shortHash, n),
+    companions,
+  );
+  await ensureDir(path.dirname(finalAbs));
+  await moveFile(stagedAbs, finalAbs);
+  return finalAbs;
+}
@@ -0,0 +1,90 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+
+import { maybeGunzip, removeIfExists, writeBytes } from "./util";
+import { fitSvgCanvas, importWithInkscape } from "./svg";
+import { convertEmfToSvg } from "./emf";
+import { ClipboardPlan } from "./clipboard";
+import { CoreOptions } from "./core";
+import { OriginalExt } from "./originals";
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+type DropHandler = {
+  name: string;
+  exts: string[];
+  original?: OriginalExt;
+  run: (
+    inAbs: string,
+    outAbs: string,
+    s: CoreOptions,
+    log: (msg: string) => void,
+  ) => Promise<void>;
+};
+
+// ── Dropped-file handlers ─────────────────────────────────────────────────────
+
+// Every handler writes SVG. Other image files are left to VS Code's own drop.
+const DROP_HANDLERS: DropHandler[] = [
+  {
+    name: "emf",
+    exts: [".emf"],
+    original: "emf",
+    run: (inAbs, out, s, log) =>
+      convertEmfToSvg(
+        inAbs,
+        out,
+        s.emfScalePercent,
+        s.finalizeEmfWithInkscape,
+        log,
+        s.fitEngine,
+      ),
+  },
+  {
+    name: "svgz",
+    exts: [".svgz"],
+    original: "svgz",
+    run: async (inAbs, out, s, log) => {
+      await writeBytes(out, await maybeGunzip(await fs.readFile(inAbs)));
+      if (s.finalizeSvg) await fitSvgCanvas(out, s.fitEngine, log);
+    },
+  },
+  {
+    // Inkscape crops to the drawing while importing.
+    name: "inkscape-import",
+    exts: [".wmf", ".pdf"],
+    run: (inAbs, out) => importWithInkscape(inAbs, out),
+  },
+];
+
+export function isDroppableFile(fileAbs: string): boolean {
+  const ext = path.extname(fileAbs).toLowerCase();
+  return DROP_HANDLERS.some((h) => h.exts.includes(ext));
+}
+
+// Returns a plan converting fileAbs to SVG, or null for unsupported files.
+// With removeInput the file is a temporary copy deleted on dispose.
+export function planDroppedFile(
+  fileAbs: string,
+  makeOutAbs: (ext: string) => string,
+  s: CoreOptions,
+  log: (msg: string) => void,
+  removeInput = false,
+): ClipboardPlan | null {
+  const ext = path.extname(fileAbs).toLowerCase();
+  const handler = DROP_HANDLERS.find((h) => h.exts.includes(ext));
+  if (!handler) return null;
+
+  const outAbs = makeOutAbs("svg");
+  return {
+    outAbs,
+    handler: handler.name,
+    usedType: `file:${ext}`,
+    convert: () => handler.run(fileAbs, outAbs, s, log),
+    dispose: removeInput ? () => removeIfExists(fileAbs) : undefined,
+    original: handler.original && {
+      ext: handler.original,
+      read: () => fs.readFile(fileAbs),
+    },
+  };
+}
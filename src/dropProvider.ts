@@ -0,0 +1,165 @@
+import * as vscode from "vscode";
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+
+import { nonce, relPosixNoDot, removeIfExists } from "./util";
+import { isDroppableFile, planDroppedFile } from "./drop";
+import {
+  PasteSettings,
+  joinImageLinks,
+  readPasteSettings,
+  startConversion,
+  withAltText,
+} from "./paste";
+import { pasteTarget } from "./core";
+import { VECTOR_PASTE_KIND } from "./pasteProvider";
+
+type DroppedFile = { abs: string; temp: boolean };
+
+// ── Dropped files ─────────────────────────────────────────────────────────────
+
+// Files dragged from the Explorer arrive as a uri-list; files dragged from the
+// OS may only be available as bytes, which are copied to a temporary file.
+async function droppedFiles(dt: vscode.DataTransfer): Promise<DroppedFile[]> {
+  const uriList = await dt.get("text/uri-list")?.asString();
+  if (uriList) {
+    return uriList
+      .split(/\r?\n/)
+      .map((l) => l.trim())
+      .filter((l) => l && !l.startsWith("#"))
+      .map((l) => vscode.Uri.parse(l))
+      .filter((u) => u.scheme === "file" && isDroppableFile(u.fsPath))
+      .map((u) => ({ abs: u.fsPath, temp: false }));
+  }
+
+  const files: DroppedFile[] = [];
+  for (const [, item] of dt) {
+    const f = item.asFile();
+    if (!f || !isDroppableFile(f.name)) continue;
+    if (f.uri?.scheme === "file") {
+      files.push({ abs: f.uri.fsPath, temp: false });
+      continue;
+    }
+    const tmp = path.join(
+      os.tmpdir(),
+      `pastevector_${nonce()}${path.extname(f.name).toLowerCase()}`,
+    );
+    await fs.writeFile(tmp, await f.data());
+    files.push({ abs: tmp, temp: true });
+  }
+  return files;
+}
+
+// ── Drop edit provider ────────────────────────────────────────────────────────
+
+// How long a temporary copy waits for its drop edit to be resolved. Edits
+// that are never applied (another edit picked, the drop cancelled) are not
+// reported, so their copies are removed after this.
+const UNRESOLVED_TTL_MS = 5 * 60_000;
+
+class VectorDropEdit extends vscode.DocumentDropEdit {
+  constructor(
+    public files: DroppedFile[],
+    public settings: PasteSettings,
+    public document: vscode.TextDocument,
+  ) {
+    super("", "Insert as vector image", VECTOR_PASTE_KIND);
+  }
+}
+
+// Converts dropped EMF, WMF, SVGZ and PDF files to SVG next to the document
+// and inserts one image link per file, in the document's syntax. Like the
+// paste provider, output names are picked and conversion started when the
+// edit is resolved. Temporary copies of OS drops are removed by their plan,
+// or after UNRESOLVED_TTL_MS or on dispose when the edit is never resolved.
+export class VectorDropEditProvider
+  implements vscode.DocumentDropEditProvider<VectorDropEdit>, vscode.Disposable
+{
+  private readonly unresolved = new Map<string, NodeJS.Timeout>();
+
+  constructor(private readonly log: (msg: string) => void) {}
+
+  async provideDocumentDropEdits(
+    document: vscode.TextDocument,
+    _position: vscode.Position,
+    dataTransfer: vscode.DataTransfer,
+    token: vscode.CancellationToken,
+  ): Promise<VectorDropEdit | undefined> {
+    if (document.uri.scheme !== "file") return undefined;
+    const s = readPasteSettings(document);
+    if (!s.linkStyle) return undefined;
+    const files = await droppedFiles(dataTransfer);
+    for (const f of files) if (f.temp) this.track(f.abs);
+    if (!files.length || token.isCancellationRequested) {
+      for (const f of files) if (f.temp) await this.removeTemp(f.abs);
+      return undefined;
+    }
+    return new VectorDropEdit(files, s, document);
+  }
+
+  async resolveDocumentDropEdit(
+    edit: VectorDropEdit,
+    _token: vscode.CancellationToken,
+  ): Promise<VectorDropEdit> {
+    const { files, document } = edit;
+    const target = pasteTarget(document.uri.fsPath, edit.settings);
+    const links: string[] = [];
+    for (const f of files) {
+      // From here on the plan's dispose removes the copy.
+      if (f.temp) this.untrack(f.abs);
+      const plan = planDroppedFile(
+        f.abs,
+        target.makeOutAbs,
+        edit.settings,
+        this.log,
+        f.temp,
+      );
+      if (!plan) continue;
+      const s = await withAltText(edit.settings, plan, target);
+      try {
+        const { outAbs, link } = await startConversion(
+          plan,
+          target,
+          s,
+          this.log,
+          document.uri,
+        );
+        const rel = relPosixNoDot(target.docDir, outAbs);
+        links.push(link);
+        this.log(`ok handler=${plan.handler} type=${plan.usedType} -> ${rel}`);
+      } catch (e: any) {
+        const msg = e?.message ?? String(e);
+        this.log(`error ${plan.handler}: ${msg}`);
+        vscode.window.showErrorMessage(
+          `pasteVector: Conversion failed — ${msg}`,
+        );
+      }
+    }
+    edit.insertText = joinImageLinks(edit.settings, links);
+    return edit;
+  }
+
+  dispose(): void {
+    for (const abs of [...this.unresolved.keys()]) void this.removeTemp(abs);
+  }
+
+  private track(abs: string): void {
+    const timer = setTimeout(
+      () => void this.removeTemp(abs),
+      UNRESOLVED_TTL_MS,
+    );
+    timer.unref?.();
+    this.unresolved.set(abs, timer);
+  }
+
+  private untrack(abs: string): void {
+    clearTimeout(this.unresolved.get(abs));
+    this.unresolved.delete(abs);
+  }
+
+  private async removeTemp(abs: string): Promise<void> {
+    this.untrack(abs);
+    await removeIfExists(abs);
+  }
+}
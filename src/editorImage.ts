@@ -0,0 +1,43 @@
+import * as vscode from "vscode";
+import * as path from "path";
+
+import { linkAt } from "./links";
+
+// ── Image under cursor ────────────────────────────────────────────────────────
+
+// An image link in the editor: the file it points to and the range of the
+// path as written in the document.
+export type CursorImage = { abs: string; rel: string; range: vscode.Range };
+
+// The image linked at the cursor, or null when the cursor is not on a local
+// image link (attachment: and URL links are not files).
+export function imageLinkUnderCursor(
+  editor: vscode.TextEditor,
+): CursorImage | null {
+  const pos = editor.selection.active;
+  const found = linkAt(editor.document.lineAt(pos.line).text, pos.character);
+  if (!found || /^[a-z][a-z0-9+.-]+:/i.test(found.path)) return null;
+  let decoded = found.path;
+  try {
+    decoded = decodeURI(found.path);
+  } catch {
+    /* keep as written */
+  }
+  return {
+    abs: path.resolve(path.dirname(editor.document.uri.fsPath), decoded),
+    rel: found.path,
+    range: new vscode.Range(pos.line, found.start, pos.line, found.end),
+  };
+}
+
+export function imageUnderCursor(editor: vscode.TextEditor): string | null {
+  return imageLinkUnderCursor(editor)?.abs ?? null;
+}
+
+// Image for a command run from the Explorer context menu (uri) or from the
+// editor (the link under the cursor).
+export function commandImage(uri?: vscode.Uri): string | null {
+  if (uri?.scheme === "file") return uri.fsPath;
+  const editor = vscode.window.activeTextEditor;
+  return editor ? imageUnderCursor(editor) : null;
+}
@@ -1,15 +1,21 @@
 import * as fs from "fs/promises";
+import * as os from "os";
 import * as path from "path";
 
-import { finalizeEmfWithInkscape, scaleSvgRootDimensions } from "./svg";
+import { FitEngine, fitEmfSvgCanvas, scaleSvgRootDimensions } from "./svg";
 import {
   T_CONVERT_MS,
   commandExists,
   ensureDir,
+  moveFile,
+  nonce,
   removeIfExists,
   runText,
   statSafe,
+  writeBytes,
+  writeFileAtomic,
 } from "./util";
+import { EmfHeader, emfToSvg, readEmfHeader } from "./emfsvg";
 
 // emf2svg-conv produces SVGs with width/height but no viewBox. The content is
 // positioned via a large translate() that exactly maps to the declared canvas.
@@ -26,51 +32,112 @@ async function ensureViewBox(svgPath: string): Promise<void> {
     /(<svg\b[^>]*?)(\/?>)/,
     `$1 viewBox="0 0 ${wm[1]} ${hm[1]}"$2`,
   );
-  await fs.writeFile(svgPath, svg, "utf8");
+  await writeFileAtomic(svgPath, svg);
 }
 
-export async function convertEmfToSvg(
+async function runEmf2SvgConv(
+  inEmfAbs: string,
+  outSvgAbs: string,
+): Promise<void> {
+  const tmpOut = path.join(os.tmpdir(), `pastevector_${nonce()}.conv.svg`);
+  try {
+    const r = await runText(
+      "emf2svg-conv",
+      ["-i", inEmfAbs, "-o", tmpOut],
+      T_CONVERT_MS,
+    );
+
+    const st = await statSafe(tmpOut);
+    if (!st.exists || st.size === 0) {
+      const detail = [r.stderr?.trim(), r.stdout?.trim()]
+        .filter(Boolean)
+        .join("\n");
+      throw new Error(`emf2svg-conv produced no output.\n${detail}`.trim());
+    }
+    await moveFile(tmpOut, outSvgAbs);
+  } finally {
+    await removeIfExists(tmpOut);
+  }
+}
+
+// Used when emf2svg-conv is not installed.
+async function convertEmfWithBuiltin(
   inEmfAbs: string,
   outSvgAbs: string,
-  scalePercent: number,
-  fitWithInkscape: boolean,
   log?: (msg: string) => void,
 ): Promise<void> {
-  if (!commandExists("emf2svg-conv")) {
-    throw new Error(
-      "emf2svg-conv not found in PATH. Install libemf2svg (e.g. apt install libemf2svg-dev or build from source).",
+  const emf = await fs.readFile(inEmfAbs);
+  const svg = emfToSvg(emf, (msg) => {
+    if (log) log(`warn builtin emf: ${msg}`);
+  });
+  await writeBytes(outSvgAbs, Buffer.from(svg, "utf8"));
+}
+
+// The EMF reference device records its size in pixels and millimetres, which
+// gives the DPI the drawing was recorded at. Rescaling from that DPI to CSS
+// pixels (96 dpi) yields the physical size, whatever the monitor or Windows
+// scaling was. Falls back to the frame/bounds ratio, then null if neither is
+// usable.
+export function emfScalePercentFromHeader(h: EmfHeader): number | null {
+  if (h.device.cx > 0 && h.millimeters.cx > 0) {
+    const dpi = (h.device.cx * 25.4) / h.millimeters.cx;
+    return (dpi / 96) * 100;
+  }
+  const boundsPx = h.bounds.right - h.bounds.left + 1;
+  const frameMm = (h.frame.right - h.frame.left) / 100;
+  if (boundsPx > 0 && frameMm > 0) {
+    const dpi = (boundsPx * 25.4) / frameMm;
+    return (dpi / 96) * 100;
+  }
+  return null;
+}
+
+async function detectEmfScalePercent(
+  inEmfAbs: string,
+  log?: (msg: string) => void,
+): Promise<number> {
+  try {
+    const pct = emfScalePercentFromHeader(
+      readEmfHeader(await fs.readFile(inEmfAbs)),
     );
+    if (pct !== null) return pct;
+    if (log) log("warn emf header has no usable size, assuming 100%");
+  } catch (e: any) {
+    if (log) log(`warn emf header: ${e?.message ?? String(e)}, assuming 100%`);
   }
+  return 100;
+}
 
+// scalePercent: explicit DPI scale override, or null to detect it from the EMF
+// header.
+export async function convertEmfToSvg(
+  inEmfAbs: string,
+  outSvgAbs: string,
+  scalePercent: number | null,
+  fitCanvas: boolean,
+  log?: (msg: string) => void,
+  fitEngine: FitEngine = "builtin",
+): Promise<void> {
   await ensureDir(path.dirname(outSvgAbs));
   await removeIfExists(outSvgAbs);
 
-  const r = await runText(
-    "emf2svg-conv",
-    ["-i", inEmfAbs, "-o", outSvgAbs],
-    T_CONVERT_MS,
-  );
-
-  const st = await statSafe(outSvgAbs);
-  if (!st.exists || st.size === 0) {
-    const detail = [r.stderr?.trim(), r.stdout?.trim()]
-      .filter(Boolean)
-      .join("\n");
-    throw new Error(`emf2svg-conv produced no output.\n${detail}`.trim());
-  }
+  const handler = commandExists("emf2svg-conv") ? "emf2svg-conv" : "builtin";
+  if (handler === "emf2svg-conv") await runEmf2SvgConv(inEmfAbs, outSvgAbs);
+  else await convertEmfWithBuiltin(inEmfAbs, outSvgAbs, log);
 
-  const factor = 100 / scalePercent;
+  const percent = scalePercent ?? (await detectEmfScalePercent(inEmfAbs, log));
+  const factor = 100 / percent;
   if (log)
     log(
-      `handler=emf2svg-conv scalePercent=${scalePercent} factor=${factor.toFixed(6)} fit=${fitWithInkscape}`,
+      `handler=${handler} scalePercent=${scalePercent ?? `auto(${percent.toFixed(2)})`} factor=${factor.toFixed(6)} fit=${fitCanvas ? fitEngine : "off"}`,
     );
 
-  if (fitWithInkscape) await finalizeEmfWithInkscape(outSvgAbs, log);
+  if (fitCanvas) await fitEmfSvgCanvas(outSvgAbs, fitEngine, log);
 
-  // Always run after fit (no-op if Inkscape already added viewBox; fixes missing
-  // viewBox when fit was skipped or failed).
+  // Always run after fit (no-op if the fit step already added viewBox; fixes
+  // missing viewBox when fit was skipped or failed).
   await ensureViewBox(outSvgAbs);
   await scaleSvgRootDimensions(outSvgAbs, factor);
 
-  if (log) log(`emf2svg-conv -> ${outSvgAbs}`);
+  if (log) log(`${handler} -> ${outSvgAbs}`);
 }
@@ -0,0 +1,1239 @@
+import * as zlib from "zlib";
+
+// Builtin EMF → SVG converter used when emf2svg-conv is not installed. Plays
+// back the GDI records ChemDraw and Office emit (poly shapes, Béziers, paths,
+// pens, brushes, fonts, text, world/page transforms, DIB images) and writes
+// every shape in device pixels. EMF+ comment records and clipping are ignored;
+// dual EMF+/EMF files carry the same drawing as plain GDI records.
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export type EmfHeader = {
+  bounds: { left: number; top: number; right: number; bottom: number };
+  // Frame rectangle in 0.01 mm.
+  frame: { left: number; top: number; right: number; bottom: number };
+  device: { cx: number; cy: number };
+  millimeters: { cx: number; cy: number };
+  records: number;
+};
+
+// Affine matrix [a, b, c, d, e, f]; XFORM eM11, eM12, eM21, eM22, eDx, eDy.
+type Matrix = [number, number, number, number, number, number];
+type Point = [number, number];
+
+type Pen = {
+  style: number;
+  width: number;
+  color: string;
+  cosmetic: boolean;
+  dashes: number[];
+};
+type Brush = { color: string | null };
+type Font = {
+  height: number;
+  escapement: number;
+  weight: number;
+  italic: boolean;
+  underline: boolean;
+  strikeOut: boolean;
+  face: string;
+};
+type GdiObject =
+  | { kind: "pen"; pen: Pen }
+  | { kind: "brush"; brush: Brush }
+  | { kind: "font"; font: Font };
+
+type DcState = {
+  world: Matrix;
+  mapMode: number;
+  windowOrg: Point;
+  windowExt: Point;
+  viewportOrg: Point;
+  viewportExt: Point;
+  pen: Pen;
+  brush: Brush;
+  font: Font;
+  textColor: string;
+  textAlign: number;
+  polyFillMode: number;
+  arcDirection: number;
+  cur: Point;
+};
+
+// ── Constants ─────────────────────────────────────────────────────────────────
+
+const EMR = {
+  HEADER: 1,
+  POLYBEZIER: 2,
+  POLYGON: 3,
+  POLYLINE: 4,
+  POLYBEZIERTO: 5,
+  POLYLINETO: 6,
+  POLYPOLYLINE: 7,
+  POLYPOLYGON: 8,
+  SETWINDOWEXTEX: 9,
+  SETWINDOWORGEX: 10,
+  SETVIEWPORTEXTEX: 11,
+  SETVIEWPORTORGEX: 12,
+  EOF: 14,
+  SETMAPMODE: 17,
+  SETPOLYFILLMODE: 19,
+  SETTEXTALIGN: 22,
+  SETTEXTCOLOR: 24,
+  MOVETOEX: 27,
+  SCALEVIEWPORTEXTEX: 31,
+  SCALEWINDOWEXTEX: 32,
+  SAVEDC: 33,
+  RESTOREDC: 34,
+  SETWORLDTRANSFORM: 35,
+  MODIFYWORLDTRANSFORM: 36,
+  SELECTOBJECT: 37,
+  CREATEPEN: 38,
+  CREATEBRUSHINDIRECT: 39,
+  DELETEOBJECT: 40,
+  ANGLEARC: 41,
+  ELLIPSE: 42,
+  RECTANGLE: 43,
+  ROUNDRECT: 44,
+  ARC: 45,
+  CHORD: 46,
+  PIE: 47,
+  LINETO: 54,
+  ARCTO: 55,
+  POLYDRAW: 56,
+  SETARCDIRECTION: 57,
+  BEGINPATH: 59,
+  ENDPATH: 60,
+  CLOSEFIGURE: 61,
+  FILLPATH: 62,
+  STROKEANDFILLPATH: 63,
+  STROKEPATH: 64,
+  ABORTPATH: 68,
+  BITBLT: 76,
+  STRETCHBLT: 77,
+  STRETCHDIBITS: 81,
+  EXTCREATEFONTINDIRECTW: 82,
+  EXTTEXTOUTA: 83,
+  EXTTEXTOUTW: 84,
+  POLYBEZIER16: 85,
+  POLYGON16: 86,
+  POLYLINE16: 87,
+  POLYBEZIERTO16: 88,
+  POLYLINETO16: 89,
+  POLYPOLYLINE16: 90,
+  POLYPOLYGON16: 91,
+  POLYDRAW16: 92,
+  EXTCREATEPEN: 95,
+} as const;
+
+const EMF_SIGNATURE = 0x464d4520;
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+const PS_NULL = 5;
+const PS_USERSTYLE = 7;
+const PS_GEOMETRIC = 0x10000;
+
+const MM_TEXT = 1;
+const MM_ISOTROPIC = 7;
+const MM_ANISOTROPIC = 8;
+
+// Logical unit size in mm for the fixed mapping modes (y axis points up).
+const MAP_MODE_MM: Record<number, number> = {
+  2: 0.1, // MM_LOMETRIC
+  3: 0.01, // MM_HIMETRIC
+  4: 0.254, // MM_LOENGLISH
+  5: 0.0254, // MM_HIENGLISH
+  6: 25.4 / 1440, // MM_TWIPS
+};
+
+const TA_UPDATECP = 0x01;
+const TA_RIGHT = 0x02;
+const TA_CENTER = 0x06;
+const TA_BOTTOM = 0x08;
+const TA_BASELINE = 0x18;
+
+// Raster operations on BITBLT without a source bitmap.
+const ROP_BLACKNESS = 0x00000042;
+const ROP_WHITENESS = 0x00ff0062;
+const ROP_PATCOPY = 0x00f00021;
+
+const STOCK_BRUSHES: Record<number, Brush> = {
+  0: { color: "#ffffff" },
+  1: { color: "#c0c0c0" },
+  2: { color: "#808080" },
+  3: { color: "#404040" },
+  4: { color: "#000000" },
+  5: { color: null },
+  18: { color: "#ffffff" },
+};
+
+const DEFAULT_PEN: Pen = {
+  style: 0,
+  width: 1,
+  color: "#000000",
+  cosmetic: true,
+  dashes: [],
+};
+
+const DEFAULT_FONT: Font = {
+  height: 12,
+  escapement: 0,
+  weight: 400,
+  italic: false,
+  underline: false,
+  strikeOut: false,
+  face: "sans-serif",
+};
+
+// Cosmetic dash patterns in pixels, indexed by PS_* style.
+const DASHES: Record<number, number[]> = {
+  1: [18, 6],
+  2: [3, 3],
+  3: [9, 6, 3, 6],
+  4: [9, 3, 3, 3, 3, 3],
+};
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+function multiply(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[2] * n[1],
+    m[1] * n[0] + m[3] * n[1],
+    m[0] * n[2] + m[2] * n[3],
+    m[1] * n[2] + m[3] * n[3],
+    m[0] * n[4] + m[2] * n[5] + m[4],
+    m[1] * n[4] + m[3] * n[5] + m[5],
+  ];
+}
+
+function apply(m: Matrix, p: Point): Point {
+  return [m[0] * p[0] + m[2] * p[1] + m[4], m[1] * p[0] + m[3] * p[1] + m[5]];
+}
+
+function fmt(v: number): string {
+  return String(Number(v.toFixed(3)));
+}
+
+function colorRef(buf: Buffer, off: number): string {
+  const hex = (v: number) => v.toString(16).padStart(2, "0");
+  return `#${hex(buf[off])}${hex(buf[off + 1])}${hex(buf[off + 2])}`;
+}
+
+function escapeXml(s: string): string {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// ── Header ────────────────────────────────────────────────────────────────────
+
+export function readEmfHeader(buf: Buffer): EmfHeader {
+  if (
+    buf.length < 88 ||
+    buf.readUInt32LE(0) !== EMR.HEADER ||
+    buf.readUInt32LE(40) !== EMF_SIGNATURE
+  )
+    throw new Error("Not an EMF file (missing EMR_HEADER signature).");
+  const rect = (off: number) => ({
+    left: buf.readInt32LE(off),
+    top: buf.readInt32LE(off + 4),
+    right: buf.readInt32LE(off + 8),
+    bottom: buf.readInt32LE(off + 12),
+  });
+  return {
+    bounds: rect(8),
+    frame: rect(24),
+    device: { cx: buf.readInt32LE(72), cy: buf.readInt32LE(76) },
+    millimeters: { cx: buf.readInt32LE(80), cy: buf.readInt32LE(84) },
+    records: buf.readUInt32LE(52),
+  };
+}
+
+// ── DIB → PNG ─────────────────────────────────────────────────────────────────
+
+const CRC_TABLE = (() => {
+  const t = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    t[n] = c >>> 0;
+  }
+  return t;
+})();
+
+function crc32(buf: Buffer): number {
+  let c = 0xffffffff;
+  for (const b of buf) c = CRC_TABLE[(c ^ b) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const len = Buffer.alloc(4);
+  len.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, "ascii"), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([len, body, crc]);
+}
+
+// Encodes an uncompressed 1/4/8/24/32-bpp DIB as PNG, or returns a JPEG/PNG
+// payload as-is. Returns null for formats this converter does not decode.
+function dibToImage(
+  bmi: Buffer,
+  bits: Buffer,
+): { mime: string; data: Buffer } | null {
+  if (bmi.length < 40) return null;
+  const headerSize = bmi.readUInt32LE(0);
+  const width = bmi.readInt32LE(4);
+  const rawHeight = bmi.readInt32LE(8);
+  const bitCount = bmi.readUInt16LE(14);
+  const compression = bmi.readUInt32LE(16);
+  if (compression === 4) return { mime: "image/jpeg", data: bits };
+  if (compression === 5) return { mime: "image/png", data: bits };
+  if (compression !== 0 && !(compression === 3 && bitCount === 32)) return null;
+  if (![1, 4, 8, 24, 32].includes(bitCount) || width <= 0) return null;
+
+  const height = Math.abs(rawHeight);
+  const topDown = rawHeight < 0;
+  const stride = Math.ceil((width * bitCount) / 32) * 4;
+  if (bits.length < stride * height) return null;
+
+  const clrUsed = bmi.readUInt32LE(32) || (bitCount <= 8 ? 1 << bitCount : 0);
+  const palOff = headerSize + (compression === 3 ? 12 : 0);
+  const palette = (i: number): [number, number, number] => {
+    const o = palOff + i * 4;
+    return o + 3 <= bmi.length ? [bmi[o + 2], bmi[o + 1], bmi[o]] : [0, 0, 0];
+  };
+
+  let hasAlpha = false;
+  if (bitCount === 32) {
+    for (let i = 3; i < stride * height; i += 4) {
+      if (bits[i] !== 0) {
+        hasAlpha = true;
+        break;
+      }
+    }
+  }
+
+  const raw = Buffer.alloc((width * 4 + 1) * height);
+  for (let y = 0; y < height; y++) {
+    const src = (topDown ? y : height - 1 - y) * stride;
+    let dst = y * (width * 4 + 1) + 1;
+    for (let x = 0; x < width; x++, dst += 4) {
+      let rgb: [number, number, number];
+      let a = 255;
+      if (bitCount === 32) {
+        const o = src + x * 4;
+        rgb = [bits[o + 2], bits[o + 1], bits[o]];
+        if (hasAlpha) a = bits[o + 3];
+      } else if (bitCount === 24) {
+        const o = src + x * 3;
+        rgb = [bits[o + 2], bits[o + 1], bits[o]];
+      } else {
+        const bitPos = x * bitCount;
+        const byte = bits[src + (bitPos >> 3)];
+        const shift = 8 - bitCount - (bitPos & 7);
+        const idx = (byte >> shift) & ((1 << bitCount) - 1);
+        rgb = idx < clrUsed ? palette(idx) : [0, 0, 0];
+      }
+      raw[dst] = rgb[0];
+      raw[dst + 1] = rgb[1];
+      raw[dst + 2] = rgb[2];
+      raw[dst + 3] = a;
+    }
+  }
+
+  const ihdr = Buffer.alloc(13);
+  ihdr.writeUInt32BE(width, 0);
+  ihdr.writeUInt32BE(height, 4);
+  ihdr[8] = 8; // bit depth
+  ihdr[9] = 6; // RGBA
+  const png = Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk("IHDR", ihdr),
+    pngChunk("IDAT", zlib.deflateSync(raw)),
+    pngChunk("IEND", Buffer.alloc(0)),
+  ]);
+  return { mime: "image/png", data: png };
+}
+
+// ── Path builder ──────────────────────────────────────────────────────────────
+
+// Collects device-space path data. Points are transformed as they are added,
+// like GDI does for path brackets.
+class PathData {
+  parts: string[] = [];
+
+  get empty(): boolean {
+    return this.parts.length === 0;
+  }
+
+  moveTo(p: Point): void {
+    this.parts.push(`M${fmt(p[0])} ${fmt(p[1])}`);
+  }
+
+  lineTo(p: Point): void {
+    this.parts.push(`L${fmt(p[0])} ${fmt(p[1])}`);
+  }
+
+  cubicTo(c1: Point, c2: Point, p: Point): void {
+    this.parts.push(
+      `C${fmt(c1[0])} ${fmt(c1[1])} ${fmt(c2[0])} ${fmt(c2[1])} ${fmt(p[0])} ${fmt(p[1])}`,
+    );
+  }
+
+  close(): void {
+    if (this.parts.length) this.parts.push("Z");
+  }
+
+  toString(): string {
+    return this.parts.join("");
+  }
+}
+
+// ── Player ────────────────────────────────────────────────────────────────────
+
+class EmfPlayer {
+  private dc: DcState;
+  private saved: DcState[] = [];
+  private objects = new Map<number, GdiObject>();
+  private path: PathData | null = null;
+  private pathDone: PathData | null = null;
+  readonly out: string[] = [];
+
+  constructor(
+    private buf: Buffer,
+    private header: EmfHeader,
+    private warn: (msg: string) => void,
+  ) {
+    this.dc = {
+      world: IDENTITY,
+      mapMode: MM_TEXT,
+      windowOrg: [0, 0],
+      windowExt: [1, 1],
+      viewportOrg: [0, 0],
+      viewportExt: [1, 1],
+      pen: DEFAULT_PEN,
+      brush: STOCK_BRUSHES[0],
+      font: DEFAULT_FONT,
+      textColor: "#000000",
+      textAlign: 0,
+      polyFillMode: 1,
+      arcDirection: 1,
+      cur: [0, 0],
+    };
+  }
+
+  // ── Coordinate spaces ───────────────────────────────────────────────────────
+
+  private pageMatrix(): Matrix {
+    const dc = this.dc;
+    let sx = 1;
+    let sy = 1;
+    if (dc.mapMode === MM_ANISOTROPIC || dc.mapMode === MM_ISOTROPIC) {
+      sx = dc.windowExt[0] ? dc.viewportExt[0] / dc.windowExt[0] : 1;
+      sy = dc.windowExt[1] ? dc.viewportExt[1] / dc.windowExt[1] : 1;
+      if (dc.mapMode === MM_ISOTROPIC) {
+        const s = Math.min(Math.abs(sx), Math.abs(sy));
+        sx = Math.sign(sx || 1) * s;
+        sy = Math.sign(sy || 1) * s;
+      }
+    } else if (MAP_MODE_MM[dc.mapMode] !== undefined) {
+      const { device, millimeters } = this.header;
+      const mm = MAP_MODE_MM[dc.mapMode];
+      sx = millimeters.cx ? (mm * device.cx) / millimeters.cx : 1;
+      sy = millimeters.cy ? -(mm * device.cy) / millimeters.cy : -1;
+    }
+    return [
+      sx,
+      0,
+      0,
+      sy,
+      dc.viewportOrg[0] - dc.windowOrg[0] * sx,
+      dc.viewportOrg[1] - dc.windowOrg[1] * sy,
+    ];
+  }
+
+  private deviceMatrix(): Matrix {
+    return multiply(this.pageMatrix(), this.dc.world);
+  }
+
+  private dev(p: Point): Point {
+    return apply(this.deviceMatrix(), p);
+  }
+
+  private scale(): number {
+    const m = this.deviceMatrix();
+    return Math.sqrt(Math.abs(m[0] * m[3] - m[1] * m[2]));
+  }
+
+  // ── Record readers ──────────────────────────────────────────────────────────
+
+  private points(
+    off: number,
+    count: number,
+    small: boolean,
+  ): { pts: Point[]; end: number } {
+    const pts: Point[] = [];
+    const step = small ? 4 : 8;
+    for (let i = 0; i < count; i++) {
+      const o = off + i * step;
+      if (o + step > this.buf.length) break;
+      pts.push(
+        small
+          ? [this.buf.readInt16LE(o), this.buf.readInt16LE(o + 2)]
+          : [this.buf.readInt32LE(o), this.buf.readInt32LE(o + 4)],
+      );
+    }
+    return { pts, end: off + count * step };
+  }
+
+  // ── Output ──────────────────────────────────────────────────────────────────
+
+  private strokeAttrs(): string {
+    const pen = this.dc.pen;
+    if ((pen.style & 0x0f) === PS_NULL) return ` stroke="none"`;
+    const w = pen.cosmetic ? 1 : Math.max(pen.width * this.scale(), 1e-3);
+    const cap = ["round", "square", "butt"][(pen.style >> 8) & 0x0f] ?? "round";
+    const join =
+      ["round", "bevel", "miter"][(pen.style >> 12) & 0x0f] ?? "round";
+    let attrs = ` stroke="${pen.color}" stroke-width="${fmt(w)}"`;
+    if (cap !== "butt") attrs += ` stroke-linecap="${cap}"`;
+    if (join !== "miter") attrs += ` stroke-linejoin="${join}"`;
+    const dashes =
+      (pen.style & 0x0f) === PS_USERSTYLE
+        ? pen.dashes.map((d) => d * (pen.cosmetic ? 1 : this.scale()))
+        : (DASHES[pen.style & 0x0f] ?? []).map((d) =>
+            pen.cosmetic ? d : d * w,
+          );
+    if (dashes.length)
+      attrs += ` stroke-dasharray="${dashes.map(fmt).join(" ")}"`;
+    return attrs;
+  }
+
+  private fillAttrs(): string {
+    const color = this.dc.brush.color;
+    if (!color) return ` fill="none"`;
+    const rule = this.dc.polyFillMode === 2 ? "nonzero" : "evenodd";
+    return ` fill="${color}" fill-rule="${rule}"`;
+  }
+
+  private emitPath(d: PathData, fill: boolean, stroke: boolean): void {
+    if (d.empty) return;
+    const attrs =
+      (fill ? this.fillAttrs() : ` fill="none"`) +
+      (stroke ? this.strokeAttrs() : ` stroke="none"`);
+    if (attrs.includes(`fill="none"`) && attrs.includes(`stroke="none"`))
+      return;
+    this.out.push(`<path d="${d}"${attrs}/>`);
+  }
+
+  // Routes a shape into the open path bracket, or draws it right away.
+  private draw(build: (d: PathData) => void, fill: boolean): void {
+    if (this.path) {
+      build(this.path);
+      return;
+    }
+    const d = new PathData();
+    build(d);
+    this.emitPath(d, fill, true);
+  }
+
+  // ── Shapes ──────────────────────────────────────────────────────────────────
+
+  private poly(pts: Point[], closed: boolean, fill: boolean): void {
+    if (pts.length < 2) return;
+    this.draw((d) => {
+      d.moveTo(this.dev(pts[0]));
+      for (const p of pts.slice(1)) d.lineTo(this.dev(p));
+      if (closed) d.close();
+    }, fill);
+    this.dc.cur = pts[pts.length - 1];
+  }
+
+  private bezier(pts: Point[], from: Point | null): void {
+    const start = from ?? pts[0];
+    const rest = from ? pts : pts.slice(1);
+    if (rest.length < 3) return;
+    this.draw((d) => {
+      if (!from || !this.path || this.path.empty) d.moveTo(this.dev(start));
+      for (let i = 0; i + 2 < rest.length; i += 3)
+        d.cubicTo(
+          this.dev(rest[i]),
+          this.dev(rest[i + 1]),
+          this.dev(rest[i + 2]),
+        );
+    }, false);
+    this.dc.cur = rest[rest.length - 1];
+  }
+
+  private lineSeq(pts: Point[]): void {
+    if (!pts.length) return;
+    const from = this.dc.cur;
+    this.draw((d) => {
+      if (!this.path || this.path.empty) d.moveTo(this.dev(from));
+      for (const p of pts) d.lineTo(this.dev(p));
+    }, false);
+    this.dc.cur = pts[pts.length - 1];
+  }
+
+  // Appends an elliptical arc as Bézier segments of at most 90°. Angles are
+  // in radians, counter-clockwise on the page (y axis pointing down).
+  private arcSegments(
+    d: PathData,
+    cx: number,
+    cy: number,
+    rx: number,
+    ry: number,
+    t1: number,
+    sweep: number,
+    moveFirst: boolean,
+  ): Point {
+    const at = (t: number): Point => [
+      cx + rx * Math.cos(t),
+      cy - ry * Math.sin(t),
+    ];
+    const tangent = (t: number): Point => [
+      -rx * Math.sin(t),
+      -ry * Math.cos(t),
+    ];
+    const n = Math.max(1, Math.ceil(Math.abs(sweep) / (Math.PI / 2) - 1e-9));
+    const step = sweep / n;
+    const k = (4 / 3) * Math.tan(step / 4);
+    let t = t1;
+    let p = at(t);
+    if (moveFirst) d.moveTo(this.dev(p));
+    else d.lineTo(this.dev(p));
+    for (let i = 0; i < n; i++) {
+      const t2 = t + step;
+      const p2 = at(t2);
+      const d1 = tangent(t);
+      const d2 = tangent(t2);
+      d.cubicTo(
+        this.dev([p[0] + k * d1[0], p[1] + k * d1[1]]),
+        this.dev([p2[0] - k * d2[0], p2[1] - k * d2[1]]),
+        this.dev(p2),
+      );
+      t = t2;
+      p = p2;
+    }
+    return p;
+  }
+
+  private arcRecord(type: number, off: number): void {
+    const b = this.buf;
+    const l = b.readInt32LE(off + 8);
+    const t = b.readInt32LE(off + 12);
+    const r = b.readInt32LE(off + 16);
+    const btm = b.readInt32LE(off + 20);
+    const start: Point = [b.readInt32LE(off + 24), b.readInt32LE(off + 28)];
+    const end: Point = [b.readInt32LE(off + 32), b.readInt32LE(off + 36)];
+    const cx = (l + r) / 2;
+    const cy = (t + btm) / 2;
+    const rx = Math.abs(r - l) / 2;
+    const ry = Math.abs(btm - t) / 2;
+    const angle = (p: Point) => Math.atan2(-(p[1] - cy), p[0] - cx);
+    const a1 = angle(start);
+    let sweep = angle(end) - a1;
+    if (this.dc.arcDirection === 2) {
+      if (sweep >= 0) sweep -= 2 * Math.PI;
+    } else if (sweep <= 0) sweep += 2 * Math.PI;
+
+    const fill = type === EMR.CHORD || type === EMR.PIE;
+    const from = this.dc.cur;
+    let last: Point = [0, 0];
+    this.draw((d) => {
+      if (type === EMR.ARCTO && (!this.path || this.path.empty))
+        d.moveTo(this.dev(from));
+      if (type === EMR.PIE) {
+        d.moveTo(this.dev([cx, cy]));
+        last = this.arcSegments(d, cx, cy, rx, ry, a1, sweep, false);
+      } else {
+        last = this.arcSegments(
+          d,
+          cx,
+          cy,
+          rx,
+          ry,
+          a1,
+          sweep,
+          type !== EMR.ARCTO,
+        );
+      }
+      if (fill) d.close();
+    }, fill);
+    if (type === EMR.ARCTO) this.dc.cur = last;
+  }
+
+  private rectRecord(type: number, off: number): void {
+    const b = this.buf;
+    const l = b.readInt32LE(off + 8);
+    const t = b.readInt32LE(off + 12);
+    const r = b.readInt32LE(off + 16);
+    const btm = b.readInt32LE(off + 20);
+    this.draw((d) => {
+      if (type === EMR.RECTANGLE) {
+        d.moveTo(this.dev([l, t]));
+        d.lineTo(this.dev([r, t]));
+        d.lineTo(this.dev([r, btm]));
+        d.lineTo(this.dev([l, btm]));
+        d.close();
+      } else if (type === EMR.ELLIPSE) {
+        this.arcSegments(
+          d,
+          (l + r) / 2,
+          (t + btm) / 2,
+          Math.abs(r - l) / 2,
+          Math.abs(btm - t) / 2,
+          0,
+          2 * Math.PI,
+          true,
+        );
+        d.close();
+      } else {
+        const rx = Math.min(Math.abs(b.readInt32LE(off + 24)) / 2, (r - l) / 2);
+        const ry = Math.min(
+          Math.abs(b.readInt32LE(off + 28)) / 2,
+          (btm - t) / 2,
+        );
+        const q = Math.PI / 2;
+        this.arcSegments(d, r - rx, t + ry, rx, ry, 0, q, true);
+        this.arcSegments(d, l + rx, t + ry, rx, ry, q, q, false);
+        this.arcSegments(d, l + rx, btm - ry, rx, ry, 2 * q, q, false);
+        this.arcSegments(d, r - rx, btm - ry, rx, ry, 3 * q, q, false);
+        d.close();
+      }
+    }, true);
+  }
+
+  private polyDraw(off: number, small: boolean): void {
+    const count = this.buf.readUInt32LE(off + 24);
+    const { pts, end } = this.points(off + 28, count, small);
+    const from = this.dc.cur;
+    this.draw((d) => {
+      if (!this.path || this.path.empty) d.moveTo(this.dev(from));
+      for (let i = 0; i < pts.length; i++) {
+        const type = this.buf[end + i];
+        if ((type & 0x06) === 0x06) d.moveTo(this.dev(pts[i]));
+        else if ((type & 0x06) === 0x04 && i + 2 < pts.length) {
+          d.cubicTo(
+            this.dev(pts[i]),
+            this.dev(pts[i + 1]),
+            this.dev(pts[i + 2]),
+          );
+          i += 2;
+        } else d.lineTo(this.dev(pts[i]));
+        if (this.buf[end + i] & 0x01) d.close();
+      }
+    }, false);
+    if (pts.length) this.dc.cur = pts[pts.length - 1];
+  }
+
+  // ── Text ────────────────────────────────────────────────────────────────────
+
+  private text(off: number, wide: boolean): void {
+    const b = this.buf;
+    const ref: Point = [b.readInt32LE(off + 36), b.readInt32LE(off + 40)];
+    const nChars = b.readUInt32LE(off + 44);
+    const offString = b.readUInt32LE(off + 48);
+    const offDx = b.readUInt32LE(off + 72);
+    const raw = b.subarray(
+      off + offString,
+      off + offString + nChars * (wide ? 2 : 1),
+    );
+    const str = raw.toString(wide ? "utf16le" : "latin1");
+    if (!str.trim()) return;
+
+    const dc = this.dc;
+    const font = dc.font;
+    const m = this.deviceMatrix();
+    const origin = this.dev(dc.textAlign & TA_UPDATECP ? dc.cur : ref);
+    const sx = Math.hypot(m[0], m[1]);
+    const sy = Math.hypot(m[2], m[3]);
+    const size = Math.abs(font.height) * sy || 12;
+
+    let advance = 0;
+    if (offDx && off + offDx + nChars * 4 <= off + b.readUInt32LE(off + 4)) {
+      for (let i = 0; i < nChars; i++)
+        advance += b.readInt32LE(off + offDx + i * 4);
+    }
+    if (dc.textAlign & TA_UPDATECP) {
+      dc.cur = [dc.cur[0] + advance, dc.cur[1]];
+    }
+
+    const angle =
+      (Math.atan2(m[1], m[0]) * 180) / Math.PI - font.escapement / 10;
+    const h = dc.textAlign & TA_CENTER;
+    const anchor =
+      h === TA_CENTER ? "middle" : h === TA_RIGHT ? "end" : undefined;
+    const v = dc.textAlign & TA_BASELINE;
+    const dy =
+      v === TA_BASELINE ? 0 : v === TA_BOTTOM ? -0.2 * size : 0.8 * size;
+
+    let attrs = ` font-family="${escapeXml(font.face)}" font-size="${fmt(size)}" fill="${dc.textColor}"`;
+    if (font.weight >= 600) attrs += ` font-weight="bold"`;
+    if (font.italic) attrs += ` font-style="italic"`;
+    const deco = [
+      font.underline ? "underline" : "",
+      font.strikeOut ? "line-through" : "",
+    ]
+      .filter(Boolean)
+      .join(" ");
+    if (deco) attrs += ` text-decoration="${deco}"`;
+    if (anchor) attrs += ` text-anchor="${anchor}"`;
+    if (advance) attrs += ` textLength="${fmt(Math.abs(advance) * sx)}"`;
+
+    const content = escapeXml(str);
+    if (Math.abs(angle) < 1e-6) {
+      this.out.push(
+        `<text x="${fmt(origin[0])}" y="${fmt(origin[1] + dy)}"${attrs} xml:space="preserve">${content}</text>`,
+      );
+    } else {
+      this.out.push(
+        `<text x="0" y="${fmt(dy)}" transform="translate(${fmt(origin[0])} ${fmt(origin[1])}) rotate(${fmt(angle)})"${attrs} xml:space="preserve">${content}</text>`,
+      );
+    }
+  }
+
+  // ── Bitmaps ─────────────────────────────────────────────────────────────────
+
+  private image(
+    off: number,
+    dest: [number, number, number, number],
+    offBmi: number,
+    cbBmi: number,
+    offBits: number,
+    cbBits: number,
+  ): void {
+    const b = this.buf;
+    const img = dibToImage(
+      b.subarray(off + offBmi, off + offBmi + cbBmi),
+      b.subarray(off + offBits, off + offBits + cbBits),
+    );
+    if (!img) {
+      this.warn("skipping bitmap in unsupported DIB format");
+      return;
+    }
+    const [x, y, w, h] = dest;
+    const p0 = this.dev([x, y]);
+    const p1 = this.dev([x + w, y + h]);
+    this.out.push(
+      `<image x="${fmt(Math.min(p0[0], p1[0]))}" y="${fmt(Math.min(p0[1], p1[1]))}" width="${fmt(Math.abs(p1[0] - p0[0]))}" height="${fmt(Math.abs(p1[1] - p0[1]))}" preserveAspectRatio="none" href="data:${img.mime};base64,${img.data.toString("base64")}"/>`,
+    );
+  }
+
+  private bitBlt(type: number, off: number): void {
+    const b = this.buf;
+    const x = b.readInt32LE(off + 24);
+    const y = b.readInt32LE(off + 28);
+    const w = b.readInt32LE(off + 32);
+    const h = b.readInt32LE(off + 36);
+    const rop = b.readUInt32LE(off + 40);
+    const cbBmi = b.readUInt32LE(off + 88);
+    if (cbBmi) {
+      this.image(
+        off,
+        [x, y, w, h],
+        b.readUInt32LE(off + 84),
+        cbBmi,
+        b.readUInt32LE(off + 92),
+        b.readUInt32LE(off + 96),
+      );
+      return;
+    }
+    const color =
+      rop === ROP_PATCOPY
+        ? this.dc.brush.color
+        : rop === ROP_WHITENESS
+          ? "#ffffff"
+          : rop === ROP_BLACKNESS
+            ? "#000000"
+            : null;
+    if (!color || type !== EMR.BITBLT) return;
+    const d = new PathData();
+    d.moveTo(this.dev([x, y]));
+    d.lineTo(this.dev([x + w, y]));
+    d.lineTo(this.dev([x + w, y + h]));
+    d.lineTo(this.dev([x, y + h]));
+    d.close();
+    this.out.push(`<path d="${d}" fill="${color}" stroke="none"/>`);
+  }
+
+  // ── Objects ─────────────────────────────────────────────────────────────────
+
+  private createPen(off: number, ext: boolean): void {
+    const b = this.buf;
+    const ih = b.readUInt32LE(off + 8);
+    let pen: Pen;
+    if (ext) {
+      const style = b.readUInt32LE(off + 28);
+      const nEntries = b.readUInt32LE(off + 48);
+      const dashes: number[] = [];
+      for (let i = 0; i < nEntries; i++) {
+        if (off + 52 + i * 4 + 4 > b.length) break;
+        dashes.push(b.readUInt32LE(off + 52 + i * 4));
+      }
+      pen = {
+        style,
+        width: b.readUInt32LE(off + 32),
+        color: colorRef(b, off + 40),
+        cosmetic: (style & PS_GEOMETRIC) === 0,
+        dashes,
+      };
+    } else {
+      const style = b.readUInt32LE(off + 12);
+      const width = b.readInt32LE(off + 16);
+      // LOGPEN pens are geometric unless the width is 0 (one device pixel).
+      pen = {
+        style,
+        width,
+        color: colorRef(b, off + 24),
+        cosmetic: width <= 1,
+        dashes: [],
+      };
+    }
+    this.objects.set(ih, { kind: "pen", pen });
+  }
+
+  private createBrush(off: number): void {
+    const b = this.buf;
+    const style = b.readUInt32LE(off + 12);
+    // Hatched brushes are approximated by their solid colour.
+    const brush: Brush = { color: style === 1 ? null : colorRef(b, off + 16) };
+    this.objects.set(b.readUInt32LE(off + 8), { kind: "brush", brush });
+  }
+
+  private createFont(off: number): void {
+    const b = this.buf;
+    const face = b
+      .subarray(off + 40, off + 104)
+      .toString("utf16le")
+      .replace(/\0.*$/s, "")
+      .trim();
+    const font: Font = {
+      height: b.readInt32LE(off + 12),
+      escapement: b.readInt32LE(off + 20),
+      weight: b.readInt32LE(off + 28),
+      italic: b[off + 32] !== 0,
+      underline: b[off + 33] !== 0,
+      strikeOut: b[off + 34] !== 0,
+      face: face || DEFAULT_FONT.face,
+    };
+    this.objects.set(b.readUInt32LE(off + 8), { kind: "font", font });
+  }
+
+  private selectObject(ih: number): void {
+    if (ih & 0x80000000) {
+      const stock = ih & 0x7fffffff;
+      if (STOCK_BRUSHES[stock]) this.dc.brush = STOCK_BRUSHES[stock];
+      else if (stock === 6) this.dc.pen = { ...DEFAULT_PEN, color: "#ffffff" };
+      else if (stock === 7 || stock === 19) this.dc.pen = DEFAULT_PEN;
+      else if (stock === 8) this.dc.pen = { ...DEFAULT_PEN, style: PS_NULL };
+      else if (stock >= 10 && stock <= 17) this.dc.font = DEFAULT_FONT;
+      return;
+    }
+    const obj = this.objects.get(ih);
+    if (!obj) return;
+    if (obj.kind === "pen") this.dc.pen = obj.pen;
+    else if (obj.kind === "brush") this.dc.brush = obj.brush;
+    else this.dc.font = obj.font;
+  }
+
+  // ── Dispatch ────────────────────────────────────────────────────────────────
+
+  private xform(off: number): Matrix {
+    const b = this.buf;
+    return [
+      b.readFloatLE(off),
+      b.readFloatLE(off + 4),
+      b.readFloatLE(off + 8),
+      b.readFloatLE(off + 12),
+      b.readFloatLE(off + 16),
+      b.readFloatLE(off + 20),
+    ];
+  }
+
+  private record(type: number, off: number, size: number): void {
+    const b = this.buf;
+    const dc = this.dc;
+    const i32 = (o: number) => b.readInt32LE(off + o);
+    const u32 = (o: number) => b.readUInt32LE(off + o);
+    switch (type) {
+      case EMR.POLYBEZIER:
+      case EMR.POLYBEZIER16:
+        this.bezier(
+          this.points(off + 28, u32(24), type === EMR.POLYBEZIER16).pts,
+          null,
+        );
+        break;
+      case EMR.POLYBEZIERTO:
+      case EMR.POLYBEZIERTO16:
+        this.bezier(
+          this.points(off + 28, u32(24), type === EMR.POLYBEZIERTO16).pts,
+          dc.cur,
+        );
+        break;
+      case EMR.POLYGON:
+      case EMR.POLYGON16:
+      case EMR.POLYLINE:
+      case EMR.POLYLINE16: {
+        const closed = type === EMR.POLYGON || type === EMR.POLYGON16;
+        const small = type === EMR.POLYGON16 || type === EMR.POLYLINE16;
+        this.poly(this.points(off + 28, u32(24), small).pts, closed, closed);
+        break;
+      }
+      case EMR.POLYLINETO:
+      case EMR.POLYLINETO16:
+        this.lineSeq(
+          this.points(off + 28, u32(24), type === EMR.POLYLINETO16).pts,
+        );
+        break;
+      case EMR.POLYPOLYLINE:
+      case EMR.POLYPOLYLINE16:
+      case EMR.POLYPOLYGON:
+      case EMR.POLYPOLYGON16: {
+        const closed = type === EMR.POLYPOLYGON || type === EMR.POLYPOLYGON16;
+        const small = type === EMR.POLYPOLYLINE16 || type === EMR.POLYPOLYGON16;
+        const nPolys = u32(24);
+        const counts: number[] = [];
+        for (let i = 0; i < nPolys; i++) counts.push(u32(32 + i * 4));
+        let p = off + 32 + nPolys * 4;
+        const figures: Point[][] = [];
+        for (const c of counts) {
+          const r = this.points(p, c, small);
+          figures.push(r.pts);
+          p = r.end;
+        }
+        this.draw((d) => {
+          for (const f of figures) {
+            if (f.length < 2) continue;
+            d.moveTo(this.dev(f[0]));
+            for (const pt of f.slice(1)) d.lineTo(this.dev(pt));
+            if (closed) d.close();
+          }
+        }, closed);
+        break;
+      }
+      case EMR.POLYDRAW:
+      case EMR.POLYDRAW16:
+        this.polyDraw(off, type === EMR.POLYDRAW16);
+        break;
+      case EMR.MOVETOEX:
+        dc.cur = [i32(8), i32(12)];
+        if (this.path) this.path.moveTo(this.dev(dc.cur));
+        break;
+      case EMR.LINETO:
+        this.lineSeq([[i32(8), i32(12)]]);
+        break;
+      case EMR.RECTANGLE:
+      case EMR.ELLIPSE:
+      case EMR.ROUNDRECT:
+        this.rectRecord(type, off);
+        break;
+      case EMR.ARC:
+      case EMR.ARCTO:
+      case EMR.CHORD:
+      case EMR.PIE:
+        this.arcRecord(type, off);
+        break;
+      case EMR.ANGLEARC: {
+        const center: Point = [i32(8), i32(12)];
+        const r = u32(16);
+        const start = (b.readFloatLE(off + 20) * Math.PI) / 180;
+        const sweep = (b.readFloatLE(off + 24) * Math.PI) / 180;
+        const from = dc.cur;
+        let last: Point = from;
+        this.draw((d) => {
+          if (!this.path || this.path.empty) d.moveTo(this.dev(from));
+          last = this.arcSegments(
+            d,
+            center[0],
+            center[1],
+            r,
+            r,
+            start,
+            sweep,
+            false,
+          );
+        }, false);
+        dc.cur = last;
+        break;
+      }
+      case EMR.SETWINDOWEXTEX:
+        dc.windowExt = [i32(8), i32(12)];
+        break;
+      case EMR.SETWINDOWORGEX:
+        dc.windowOrg = [i32(8), i32(12)];
+        break;
+      case EMR.SETVIEWPORTEXTEX:
+        dc.viewportExt = [i32(8), i32(12)];
+        break;
+      case EMR.SETVIEWPORTORGEX:
+        dc.viewportOrg = [i32(8), i32(12)];
+        break;
+      case EMR.SCALEVIEWPORTEXTEX:
+      case EMR.SCALEWINDOWEXTEX: {
+        const ext =
+          type === EMR.SCALEVIEWPORTEXTEX ? dc.viewportExt : dc.windowExt;
+        const scaled: Point = [
+          i32(12) ? (ext[0] * i32(8)) / i32(12) : ext[0],
+          i32(20) ? (ext[1] * i32(16)) / i32(20) : ext[1],
+        ];
+        if (type === EMR.SCALEVIEWPORTEXTEX) dc.viewportExt = scaled;
+        else dc.windowExt = scaled;
+        break;
+      }
+      case EMR.SETMAPMODE:
+        dc.mapMode = u32(8);
+        break;
+      case EMR.SETPOLYFILLMODE:
+        dc.polyFillMode = u32(8);
+        break;
+      case EMR.SETTEXTALIGN:
+        dc.textAlign = u32(8);
+        break;
+      case EMR.SETTEXTCOLOR:
+        dc.textColor = colorRef(b, off + 8);
+        break;
+      case EMR.SETARCDIRECTION:
+        dc.arcDirection = u32(8);
+        break;
+      case EMR.SAVEDC:
+        this.saved.push({ ...dc });
+        break;
+      case EMR.RESTOREDC: {
+        const rel = i32(8);
+        const idx = rel < 0 ? this.saved.length + rel : rel - 1;
+        if (idx >= 0 && idx < this.saved.length) {
+          this.dc = this.saved[idx];
+          this.saved.length = idx;
+        }
+        break;
+      }
+      case EMR.SETWORLDTRANSFORM:
+        dc.world = this.xform(off + 8);
+        break;
+      case EMR.MODIFYWORLDTRANSFORM: {
+        const x = this.xform(off + 8);
+        const mode = u32(32);
+        if (mode === 1) dc.world = IDENTITY;
+        else if (mode === 2) dc.world = multiply(dc.world, x);
+        else if (mode === 3) dc.world = multiply(x, dc.world);
+        else if (mode === 4) dc.world = x;
+        break;
+      }
+      case EMR.CREATEPEN:
+        this.createPen(off, false);
+        break;
+      case EMR.EXTCREATEPEN:
+        this.createPen(off, true);
+        break;
+      case EMR.CREATEBRUSHINDIRECT:
+        this.createBrush(off);
+        break;
+      case EMR.EXTCREATEFONTINDIRECTW:
+        this.createFont(off);
+        break;
+      case EMR.SELECTOBJECT:
+        this.selectObject(u32(8));
+        break;
+      case EMR.DELETEOBJECT:
+        this.objects.delete(u32(8));
+        break;
+      case EMR.BEGINPATH:
+        this.path = new PathData();
+        break;
+      case EMR.ENDPATH:
+        this.pathDone = this.path;
+        this.path = null;
+        break;
+      case EMR.CLOSEFIGURE:
+        this.path?.close();
+        break;
+      case EMR.ABORTPATH:
+        this.path = null;
+        this.pathDone = null;
+        break;
+      case EMR.FILLPATH:
+      case EMR.STROKEPATH:
+      case EMR.STROKEANDFILLPATH:
+        if (this.pathDone)
+          this.emitPath(
+            this.pathDone,
+            type !== EMR.STROKEPATH,
+            type !== EMR.FILLPATH,
+          );
+        this.pathDone = null;
+        break;
+      case EMR.EXTTEXTOUTW:
+      case EMR.EXTTEXTOUTA:
+        if (size >= 76) this.text(off, type === EMR.EXTTEXTOUTW);
+        break;
+      case EMR.BITBLT:
+      case EMR.STRETCHBLT:
+        if (size >= 100) this.bitBlt(type, off);
+        break;
+      case EMR.STRETCHDIBITS:
+        if (size >= 80)
+          this.image(
+            off,
+            [i32(24), i32(28), i32(72), i32(76)],
+            u32(48),
+            u32(52),
+            u32(56),
+            u32(60),
+          );
+        break;
+    }
+  }
+
+  play(): void {
+    const b = this.buf;
+    let off = 0;
+    while (off + 8 <= b.length) {
+      const type = b.readUInt32LE(off);
+      const size = b.readUInt32LE(off + 4);
+      if (size < 8 || off + size > b.length) {
+        this.warn(`truncated record ${type} at offset ${off}`);
+        break;
+      }
+      if (type === EMR.EOF) break;
+      try {
+        this.record(type, off, size);
+      } catch (e: any) {
+        if (!(e instanceof RangeError)) throw e;
+        this.warn(`malformed record ${type} at offset ${off}`);
+      }
+      off += size;
+    }
+  }
+}
+
+// ── Public API ────────────────────────────────────────────────────────────────
+
+// Converts EMF bytes to SVG text. The canvas is the header's device-pixel
+// bounds, matching what emf2svg-conv produces, so the same DPI correction
+// applies afterwards.
+export function emfToSvg(buf: Buffer, warn?: (msg: string) => void): string {
+  const header = readEmfHeader(buf);
+  const player = new EmfPlayer(buf, header, warn ?? (() => {}));
+  player.play();
+  if (!player.out.length)
+    throw new Error(
+      "EMF contains no drawing records the builtin converter understands (EMF+-only files are not supported).",
+    );
+
+  const { left, top, right, bottom } = header.bounds;
+  const w = right - left + 1;
+  const h = bottom - top + 1;
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${w}" height="${h}" viewBox="${left} ${top} ${w} ${h}">`,
+    ...player.out,
+    `</svg>`,
+    "",
+  ].join("\n");
+}
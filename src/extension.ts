@@ -1,227 +1,304 @@
 import * as vscode from "vscode";
-import * as path from "path";
 
-import { isWSL } from "./util";
-import { looksLikeSvgText, writeSvgText, finalizeSvgWithInkscape } from "./svg";
+import { isWSL, relPosixNoDot } from "./util";
 import {
-  planLinuxClipboard,
-  planWslWindowsClipboard,
+  listClipboardFormats,
   listClipboardTypes,
   ClipboardPlan,
 } from "./clipboard";
+import {
+  PasteSettings,
+  linkedLanguages,
+  planClipboardPaste,
+  readPasteSettings,
+  startConversion,
+  withAltText,
+} from "./paste";
+import { pasteTarget } from "./core";
+import { attachToCell, attachmentTarget, notebookCellOf } from "./notebook";
+import { VECTOR_PASTE_KIND, VectorPasteEditProvider } from "./pasteProvider";
+import { VectorDropEditProvider } from "./dropProvider";
+import { FormatChoices } from "./formatChoices";
+import { pickClipboardFormat } from "./pasteAs";
+import { CONVERSIONS } from "./queue";
+import { POWERSHELL } from "./powershell";
+import { copyStructureBack } from "./structure";
+import { reconvertImage } from "./reconvert";
+import { replaceImageUnderCursor } from "./replace";
+import { cleanUpOrphanedImages } from "./cleanup";
+import { onFilesRenamed } from "./rename";
+import { saveClipboardSnapshot } from "./snapshot";
 
 // ── Formatting helpers ────────────────────────────────────────────────────────
 
 function ts() {
   return new Date().toISOString();
 }
-function nowSec() {
-  return Math.floor(Date.now() / 1000).toString();
-}
 
-function expandTemplate(tpl: string, vars: Record<string, string>): string {
-  return tpl.replace(/\$\{([^}]+)\}/g, (_, k) => vars[k] ?? "");
+async function insertLink(
+  editor: vscode.TextEditor,
+  link: string,
+  copyLink: boolean,
+): Promise<void> {
+  await editor.edit((eb) => eb.insert(editor.selection.active, link));
+  if (copyLink) await vscode.env.clipboard.writeText(link);
 }
 
-function relPosixNoDot(fromDir: string, toFile: string): string {
-  return path.relative(fromDir, toFile).replace(/\\/g, "/");
-}
+// ── Extension entry points ────────────────────────────────────────────────────
 
-function mdImage(rel: string, altText: string): string {
-  const alt = (altText ?? "").trim();
-  const safeAlt = alt.replace(/[\r\n\t]+/g, " ").replace(/]/g, "\\]");
-  return alt ? `![${safeAlt}](${rel})` : `![](${rel})`;
-}
+export async function activate(context: vscode.ExtensionContext) {
+  const out = vscode.window.createOutputChannel("pasteVector");
 
-async function insertMarkdown(
-  editor: vscode.TextEditor,
-  docDir: string,
-  outAbs: string,
-  altText: string,
-  copyMd: boolean,
-): Promise<string> {
-  const rel = relPosixNoDot(docDir, outAbs);
-  const md = mdImage(rel, altText);
-  await editor.edit((eb) => eb.insert(editor.selection.active, md));
-  if (copyMd) await vscode.env.clipboard.writeText(md);
-  return rel;
-}
+  const log = (msg: string) => {
+    out.appendLine(`${ts()} ${msg}`);
+    if (vscode.workspace.getConfiguration().get("pasteVector.showLog", false))
+      out.show(true);
+  };
 
-// Runs plan.convert() in the background. On failure, logs and shows a VS Code
-// error notification so the user knows the image file was not written.
-function runConvert(plan: ClipboardPlan, log: (msg: string) => void): void {
-  plan.convert().catch((e: any) => {
-    const msg = e?.message ?? String(e);
-    log(`error ${plan.handler}: ${msg}`);
-    vscode.window.showErrorMessage(`pasteVector: Conversion failed — ${msg}`);
+  const choices = new FormatChoices(context.globalState);
+
+  // Conversion queue: concurrency from settings, activity in the status bar.
+  const readLimit = () => {
+    CONVERSIONS.limit = vscode.workspace
+      .getConfiguration()
+      .get<number>("pasteVector.maxConcurrentConversions", 2);
+  };
+  readLimit();
+
+  // The Ctrl+Alt+V keybinding applies in these languages.
+  const setLinkedLanguages = () =>
+    vscode.commands.executeCommand(
+      "setContext",
+      "pasteVector.linkedLanguages",
+      linkedLanguages(),
+    );
+  setLinkedLanguages();
+
+  const configWatch = vscode.workspace.onDidChangeConfiguration((e) => {
+    if (e.affectsConfiguration("pasteVector.maxConcurrentConversions"))
+      readLimit();
+    if (e.affectsConfiguration("pasteVector.linkFormats")) setLinkedLanguages();
   });
-}
 
-// ── Extension entry points ────────────────────────────────────────────────────
+  const status = vscode.window.createStatusBarItem(
+    vscode.StatusBarAlignment.Left,
+  );
+  status.command = "pasteVector.cancelConversions";
+  const queueWatch = CONVERSIONS.onDidChange(() => {
+    const running = CONVERSIONS.runningCount;
+    const pending = CONVERSIONS.pendingCount;
+    if (running + pending === 0) {
+      status.hide();
+      return;
+    }
+    status.text =
+      `$(sync~spin) pasteVector: converting ${running}` +
+      (pending ? `, ${pending} queued` : "");
+    status.tooltip = `${CONVERSIONS.runningLabels.join("\n")}\nClick to cancel pending conversions.`;
+    status.show();
+  });
 
-export async function activate(context: vscode.ExtensionContext) {
-  const out = vscode.window.createOutputChannel("pasteVector");
+  const cancelCmd = vscode.commands.registerCommand(
+    "pasteVector.cancelConversions",
+    () => {
+      const n = CONVERSIONS.cancelAll();
+      // A Windows clipboard read (WSL) can hang on the clipboard owner.
+      const clip = POWERSHELL.cancel();
+      log(`cancel conversions=${n} clipboard=${clip}`);
+      vscode.window.showInformationMessage(
+        n
+          ? `pasteVector: Cancelled ${n} conversion(s).`
+          : clip
+            ? "pasteVector: Stopped reading the Windows clipboard."
+            : "pasteVector: No conversions are running.",
+      );
+    },
+  );
+
+  // Where a paste into editor goes: a cell attachment in notebook Markdown
+  // cells (unless disabled), otherwise a file next to the document.
+  const targetFor = (editor: vscode.TextEditor, s: PasteSettings) => {
+    const cell = s.notebookAttachments
+      ? notebookCellOf(editor.document)
+      : undefined;
+    const target = cell
+      ? attachmentTarget(cell, s)
+      : pasteTarget(editor.document.uri.fsPath, s);
+    return { cell, target };
+  };
+
+  // Converts plan and inserts its link at the cursor.
+  const insertPlan = async (
+    editor: vscode.TextEditor,
+    plan: ClipboardPlan,
+    { cell, target }: ReturnType<typeof targetFor>,
+    settings: PasteSettings,
+  ) => {
+    const s = await withAltText(settings, plan, target);
+    try {
+      let link: string;
+      let where: string;
+      if (cell) {
+        link = await attachToCell(plan, cell, target, s, log);
+        where = `cell ${cell.index}`;
+      } else {
+        const uri = editor.document.uri;
+        const started = await startConversion(plan, target, s, log, uri);
+        link = started.link;
+        where = relPosixNoDot(target.docDir, started.outAbs);
+      }
+      await insertLink(editor, link, s.copyMarkdownToClipboard && !isWSL());
+      log(`ok handler=${plan.handler} type=${plan.usedType} -> ${where}`);
+    } catch (e: any) {
+      const msg = e?.message ?? String(e);
+      log(`error ${plan.handler}: ${msg}`);
+      vscode.window.showErrorMessage(`pasteVector: Conversion failed — ${msg}`);
+    }
+  };
 
   const pasteCmd = vscode.commands.registerCommand(
     "pasteVector.pasteVector",
     async () => {
       const editor = vscode.window.activeTextEditor;
       if (!editor) return;
-      if (editor.document.languageId !== "markdown") {
+      const s = readPasteSettings(editor.document);
+      if (!s.linkStyle) {
         await vscode.commands.executeCommand(
           "editor.action.clipboardPasteAction",
         );
         return;
       }
 
-      const cfg = vscode.workspace.getConfiguration();
-      const preferBackend = cfg.get<"auto" | "wayland" | "x11">(
-        "pasteVector.preferBackend",
-        "auto",
-      );
-      const tpl = cfg.get<string>(
-        "pasteVector.destinationTemplate",
-        "img_${documentBaseName}_${unixTime}.${fileExtName}",
-      );
-      const altText = cfg.get<string>("pasteVector.altText", "");
-      const showLog = cfg.get<boolean>("pasteVector.showLog", false);
-      const copyMdToClipboard = cfg.get<boolean>(
-        "pasteVector.copyMarkdownToClipboard",
-        false,
-      );
-      const finalizeSvg = cfg.get<boolean>(
-        "pasteVector.finalizeSvgWithInkscape",
-        true,
-      );
-      const emfScalePercent = cfg.get<number>(
-        "pasteVector.emfScalePercent",
-        125,
-      );
-      const finalizeEmfWithInkscape = cfg.get<boolean>(
-        "pasteVector.finalizeEmfWithInkscape",
-        true,
-      );
-      const copyMd = copyMdToClipboard && !isWSL();
-      const docPath = editor.document.uri.fsPath;
-      const docDir = path.dirname(docPath);
-      const docBase = path.basename(docPath, path.extname(docPath));
-      const unixTime = nowSec();
-
-      const makeOutAbs = (ext: string) =>
-        path.join(
-          docDir,
-          expandTemplate(tpl, {
-            documentBaseName: docBase,
-            unixTime,
-            fileExtName: ext,
-          }),
+      const dest = targetFor(editor, s);
+      const plan = await planClipboardPaste(s, dest.target, log, choices.all());
+      if (!plan) {
+        await vscode.commands.executeCommand(
+          "editor.action.clipboardPasteAction",
         );
-
-      const log = (msg: string) => {
-        out.appendLine(`${ts()} ${msg}`);
-        if (showLog) out.show(true);
-      };
-
-      const clipText = (await vscode.env.clipboard.readText()) ?? "";
-      const t = clipText.trim();
-
-      // SVG text / data-URI in clipboard — insert link immediately, write in background
-      if (t && looksLikeSvgText(t)) {
-        try {
-          const outSvgAbs = makeOutAbs("svg");
-          const rel = await insertMarkdown(
-            editor,
-            docDir,
-            outSvgAbs,
-            altText,
-            copyMd,
-          );
-          log(`ok handler=svg-text -> ${rel}`);
-          (async () => {
-            await writeSvgText(outSvgAbs, t);
-            if (finalizeSvg) await finalizeSvgWithInkscape(outSvgAbs);
-          })().catch((e: any) => {
-            const msg = e?.message ?? String(e);
-            log(`error svg-text: ${msg}`);
-            vscode.window.showErrorMessage(
-              `pasteVector: Conversion failed — ${msg}`,
-            );
-          });
-          return;
-        } catch (e: any) {
-          log(`warn svg-text failed: ${e?.message ?? String(e)}`);
-        }
+        return;
       }
+      await insertPlan(editor, plan, dest, s);
+    },
+  );
 
-      // WSL → Windows clipboard (SVG, EMF, PNG)
-      // Must run before the plain-text whitespace check: Windows apps (e.g.
-      // ChemDraw) place text alongside EMF on the clipboard; readText() returns
-      // that text in modern VS Code + WSL, so the whitespace check would
-      // short-circuit before we ever reach the Windows clipboard.
-      // PS extraction runs synchronously so we know the path and type; conversion
-      // (emf2svg-conv / Inkscape) runs in the background after the link is inserted.
-      try {
-        const plan = await planWslWindowsClipboard(
-          makeOutAbs,
-          finalizeSvg,
-          { emfScalePercent, finalizeEmfWithInkscape },
-          log,
+  const pasteAsCmd = vscode.commands.registerCommand(
+    "pasteVector.pasteAs",
+    async () => {
+      const editor = vscode.window.activeTextEditor;
+      const s = editor && readPasteSettings(editor.document);
+      if (!editor || !s?.linkStyle) {
+        vscode.window.showInformationMessage(
+          "pasteVector: Paste As… works in the languages listed in pasteVector.linkFormats.",
         );
-        if (plan) {
-          const rel = await insertMarkdown(
-            editor,
-            docDir,
-            plan.outAbs,
-            altText,
-            copyMd,
-          );
-          log(`ok handler=${plan.handler} type=${plan.usedType} -> ${rel}`);
-          runConvert(plan, log);
-          return;
-        }
-      } catch (e: any) {
-        log(`warn wsl clipboard failed: ${e?.message ?? String(e)}`);
+        return;
       }
 
-      // Plain text with whitespace → default paste
-      if (t && /\s/.test(t)) {
-        await vscode.commands.executeCommand(
-          "editor.action.clipboardPasteAction",
+      const offer = await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Window,
+          title: "pasteVector: reading clipboard formats",
+        },
+        () =>
+          listClipboardFormats(
+            s.preferBackend,
+            s.finalizeSvg,
+            {
+              emfScalePercent: s.emfScalePercent,
+              finalizeEmfWithInkscape: s.finalizeEmfWithInkscape,
+              fitEngine: s.fitEngine,
+              keepNativeStructure: s.keepNativeStructure,
+            },
+            s.formatPriority,
+            log,
+          ),
+      );
+      if (!offer) {
+        vscode.window.showInformationMessage(
+          "pasteVector: The clipboard has no format pasteVector can paste.",
         );
         return;
       }
 
-      // Linux clipboard (Wayland / X11)
-      // Type listing runs synchronously so we know the path and extension; byte
-      // read and conversion run in the background after the link is inserted.
-      try {
-        const plan = await planLinuxClipboard(
-          preferBackend,
-          makeOutAbs,
-          finalizeSvg,
+      const picked = await pickClipboardFormat(offer);
+      if (!picked) return;
+      if (picked.remember && offer.source) {
+        await choices.remember(offer.source, picked.option.format);
+        log(`remember source=${offer.source} format=${picked.option.format}`);
+      }
+
+      const dest = targetFor(editor, s);
+      const plan = await picked.option.plan(dest.target.makeOutAbs);
+      if (!plan) {
+        vscode.window.showErrorMessage(
+          `pasteVector: ${picked.option.type} is no longer on the clipboard.`,
         );
-        if (plan) {
-          const rel = await insertMarkdown(
-            editor,
-            docDir,
-            plan.outAbs,
-            altText,
-            copyMd,
-          );
-          log(`ok handler=${plan.handler} type=${plan.usedType} -> ${rel}`);
-          runConvert(plan, log);
-          return;
-        }
-      } catch (e: any) {
-        log(`warn linux clipboard failed: ${e?.message ?? String(e)}`);
+        return;
       }
+      plan.text ??= await vscode.env.clipboard.readText();
+      await insertPlan(editor, plan, dest, s);
+    },
+  );
 
-      await vscode.commands.executeCommand(
-        "editor.action.clipboardPasteAction",
+  const forgetChoicesCmd = vscode.commands.registerCommand(
+    "pasteVector.forgetFormatChoices",
+    async () => {
+      await choices.clear();
+      vscode.window.showInformationMessage(
+        "pasteVector: Remembered paste formats cleared.",
       );
     },
   );
 
+  // Ctrl+V offers "Paste as vector image" in the paste widget. The provider
+  // must see every paste: apps like ChemDraw put EMF on the clipboard, which
+  // VS Code does not expose as a mime type. The languages are configurable, so
+  // the providers match every file and skip documents without a link format.
+  const pasteProvider = vscode.languages.registerDocumentPasteEditProvider(
+    [{ scheme: "file" }, { notebookType: "jupyter-notebook" }],
+    new VectorPasteEditProvider(log, choices),
+    { providedPasteEditKinds: [VECTOR_PASTE_KIND], pasteMimeTypes: ["*/*"] },
+  );
+
+  // Dropped .emf/.wmf/.svgz/.pdf files go through the same conversion.
+  const dropEdits = new VectorDropEditProvider(log);
+  const dropProvider = vscode.languages.registerDocumentDropEditProvider(
+    { scheme: "file" },
+    dropEdits,
+    {
+      providedDropEditKinds: [VECTOR_PASTE_KIND],
+      dropMimeTypes: ["text/uri-list", "files"],
+    },
+  );
+
+  const copyStructureCmd = vscode.commands.registerCommand(
+    "pasteVector.copyStructureToClipboard",
+    (uri?: vscode.Uri) => copyStructureBack(log, uri),
+  );
+
+  const reconvertCmd = vscode.commands.registerCommand(
+    "pasteVector.reconvertImage",
+    (uri?: vscode.Uri) => reconvertImage(log, uri),
+  );
+
+  const replaceCmd = vscode.commands.registerCommand(
+    "pasteVector.replaceImage",
+    () => replaceImageUnderCursor(log, choices),
+  );
+
+  const cleanupCmd = vscode.commands.registerCommand(
+    "pasteVector.cleanUpOrphanedImages",
+    () => cleanUpOrphanedImages(log),
+  );
+
+  const snapshotCmd = vscode.commands.registerCommand(
+    "pasteVector.saveClipboardSnapshot",
+    () => saveClipboardSnapshot(log),
+  );
+
+  const renameWatch = vscode.workspace.onDidRenameFiles((e) =>
+    onFilesRenamed(e, log),
+  );
+
   const showTypesCmd = vscode.commands.registerCommand(
     "pasteVector.showClipboardTypes",
     async () => {
@@ -238,20 +315,45 @@ export async function activate(context: vscode.ExtensionContext) {
           out.appendLine(`${ts()} backend=${entry.kind} error=${entry.error}`);
         } else {
           out.appendLine(
-            `${ts()} backend=${entry.kind} types=${entry.types.length}`,
+            `${ts()} backend=${entry.kind} types=${entry.types.length}` +
+              (entry.source ? ` source=${entry.source}` : ""),
+          );
+          out.appendLine(
+            entry.types
+              .map((t) => {
+                const size = entry.sizes?.[t];
+                return size === undefined ? `- ${t}` : `- ${t} (${size} B)`;
+              })
+              .join("\n"),
           );
-          out.appendLine(entry.types.map((t) => `- ${t}`).join("\n"));
         }
       }
-      if (isWSL()) {
-        out.appendLine(
-          `${ts()} backend=wsl note=Windows clipboard formats accessed via powershell.exe`,
-        );
-      }
     },
   );
 
-  context.subscriptions.push(out, pasteCmd, showTypesCmd);
+  context.subscriptions.push(
+    out,
+    pasteCmd,
+    pasteAsCmd,
+    forgetChoicesCmd,
+    pasteProvider,
+    dropProvider,
+    dropEdits,
+    showTypesCmd,
+    copyStructureCmd,
+    reconvertCmd,
+    replaceCmd,
+    cleanupCmd,
+    snapshotCmd,
+    cancelCmd,
+    status,
+    configWatch,
+    renameWatch,
+    queueWatch,
+  );
 }
 
-export function deactivate() {}
+export function deactivate() {
+  CONVERSIONS.cancelAll();
+  POWERSHELL.dispose();
+}
@@ -0,0 +1,25 @@
+import * as vscode from "vscode";
+
+import { FormatChoiceMap } from "./clipboard";
+
+// ── Remembered formats ────────────────────────────────────────────────────────
+
+const STATE_KEY = "pasteVector.formatChoices";
+
+// Per-source format choices made in "Paste As…", kept in global state so they
+// apply across workspaces.
+export class FormatChoices {
+  constructor(private readonly state: vscode.Memento) {}
+
+  all(): FormatChoiceMap {
+    return this.state.get<FormatChoiceMap>(STATE_KEY, {});
+  }
+
+  async remember(source: string, format: string): Promise<void> {
+    await this.state.update(STATE_KEY, { ...this.all(), [source]: format });
+  }
+
+  async clear(): Promise<void> {
+    await this.state.update(STATE_KEY, undefined);
+  }
+}
@@ -0,0 +1,307 @@
+import { expandTemplate } from "./util";
+import { svgRootSize } from "./svgbbox";
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export type LinkStyle =
+  "markdown" | "latex" | "asciidoc" | "rst" | "typst" | "org";
+
+export type LinkOptions = {
+  style: LinkStyle;
+  altText: string;
+  // LaTeX only: wrap \includegraphics in a figure environment, with the alt
+  // text as caption.
+  latexFigure: boolean;
+  // pasteVector.linkTemplate; "" uses the style's syntax.
+  template: string;
+  // Size of the converted image, for the template's size variables.
+  size?: ImageSize;
+};
+
+// Rendered size in CSS px (96 per inch).
+export type ImageSize = { widthPx: number; heightPx: number };
+
+// Default pasteVector.linkFormats: VS Code language id → link style.
+export const DEFAULT_LINK_FORMATS: Record<string, LinkStyle> = {
+  markdown: "markdown",
+  latex: "latex",
+  tex: "latex",
+  asciidoc: "asciidoc",
+  restructuredtext: "rst",
+  typst: "typst",
+  org: "org",
+};
+
+// ── Link formatters ───────────────────────────────────────────────────────────
+
+function oneLine(altText: string): string {
+  return (altText ?? "").trim().replace(/[\r\n\t]+/g, " ");
+}
+
+// Brackets and backslashes in the alt text are escaped, so an unbalanced [
+// cannot end the image syntax early.
+function mdEscape(s: string): string {
+  return s.replace(/[[\]\\]/g, (c) => `\\${c}`);
+}
+
+export function mdImage(rel: string, altText: string): string {
+  const alt = oneLine(altText);
+  return alt ? `![${mdEscape(alt)}](${rel})` : `![](${rel})`;
+}
+
+function latexEscape(s: string): string {
+  return s.replace(/[\\{}%$&#_^~]/g, (c) =>
+    c === "\\"
+      ? "\\textbackslash{}"
+      : c === "^" || c === "~"
+        ? `\\${c}{}`
+        : `\\${c}`,
+  );
+}
+
+function latexImage(rel: string, altText: string, figure: boolean): string {
+  const include = `\\includegraphics{${rel}}`;
+  if (!figure) return include;
+  const alt = oneLine(altText);
+  return [
+    "\\begin{figure}[htbp]",
+    "  \\centering",
+    `  ${include}`,
+    ...(alt ? [`  \\caption{${latexEscape(alt)}}`] : []),
+    "\\end{figure}",
+  ].join("\n");
+}
+
+// Commas would split the alt text into further attributes, so such text is
+// quoted.
+function asciidocImage(rel: string, altText: string): string {
+  const alt = oneLine(altText);
+  const attr = /[,"]/.test(alt)
+    ? `"${alt.replace(/"/g, '\\"')}"`
+    : alt.replace(/]/g, "\\]");
+  return `image::${rel}[${attr}]`;
+}
+
+function rstImage(rel: string, altText: string): string {
+  const alt = oneLine(altText);
+  return alt ? `.. image:: ${rel}\n   :alt: ${alt}` : `.. image:: ${rel}`;
+}
+
+function typstEscape(s: string): string {
+  return s.replace(/[\\"]/g, (c) => `\\${c}`);
+}
+
+function typstString(s: string): string {
+  return `"${typstEscape(s)}"`;
+}
+
+function typstImage(rel: string, altText: string): string {
+  const alt = oneLine(altText);
+  return alt
+    ? `#image(${typstString(rel)}, alt: ${typstString(alt)})`
+    : `#image(${typstString(rel)})`;
+}
+
+function orgImage(rel: string, altText: string): string {
+  const alt = oneLine(altText);
+  const link = `[[file:${rel}]]`;
+  return alt ? `#+ATTR_HTML: :alt ${alt}\n${link}` : link;
+}
+
+// The image link for rel (a document-relative POSIX path): the template when
+// set, otherwise the style's syntax.
+export function formatImageLink(rel: string, o: LinkOptions): string {
+  if (o.template) return expandLinkTemplate(rel, o);
+  switch (o.style) {
+    case "latex":
+      return latexImage(rel, o.altText, o.latexFigure);
+    case "asciidoc":
+      return asciidocImage(rel, o.altText);
+    case "rst":
+      return rstImage(rel, o.altText);
+    case "typst":
+      return typstImage(rel, o.altText);
+    case "org":
+      return orgImage(rel, o.altText);
+    default:
+      return mdImage(rel, o.altText);
+  }
+}
+
+// Separator between the links of several dropped files: inline links share a
+// line, block-level ones (directives, figures) get a paragraph each.
+export function linkSeparator(o: LinkOptions): string {
+  if (o.template) return o.template.includes("\n") ? "\n\n" : " ";
+  const inline =
+    o.style === "markdown" ||
+    o.style === "typst" ||
+    (o.style === "latex" && !o.latexFigure) ||
+    (o.style === "org" && !oneLine(o.altText));
+  return inline ? " " : "\n\n";
+}
+
+// ── Alt text ──────────────────────────────────────────────────────────────────
+
+// Longest alt text taken from the clipboard; screen readers cut off around
+// here.
+export const ALT_TEXT_MAX = 125;
+
+// Clipboard text cleaned up as alt text: control characters and whitespace
+// runs become single spaces, and long text is cut at a word boundary with an
+// ellipsis. Markup (SVG, HTML, RTF) is not a description and gives "".
+export function altTextFromClipboard(text: string, max = ALT_TEXT_MAX): string {
+  const t = text
+    .replace(/[\u0000-\u001f\u007f]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+  if (!t || /^(?:<|\{\\rtf)/i.test(t)) return "";
+  if (t.length <= max) return t;
+  const cut = t.slice(0, max - 1);
+  const space = t[max - 1] === " " ? cut.length : cut.lastIndexOf(" ");
+  return `${(space > max / 2 ? cut.slice(0, space) : cut).trimEnd()}…`;
+}
+
+// img/benzene_ring-2.svg → "benzene ring 2"
+export function altTextFromFilename(p: string): string {
+  return p
+    .replace(/^.*[\\/:]/, "")
+    .replace(/\.[^.]*$/, "")
+    .replace(/[_-]+/g, " ")
+    .trim();
+}
+
+// ── Link lookup ───────────────────────────────────────────────────────────────
+
+// Each link syntax (and HTML src attributes): group 1 is the text before the
+// image path, group 2 the path.
+const LINK_PATTERNS = [
+  /(!\[(?:\\.|[^\]\\])*\]\(\s*<?)([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)/g,
+  /(\\includegraphics(?:\[[^\]]*\])?\{)([^}]+)\}/g,
+  /(image::)([^[\s]+)\[/g,
+  /(\.\. image::\s*)(\S+)/g,
+  /(#image\(\s*")([^"]+)"/g,
+  /(\[\[file:)([^\]]+)\]/g,
+  /(\ssrc=")([^"]+)"/g,
+];
+
+// An image path in a line of text: start and end are its offsets in the line.
+export type LinkPath = { path: string; start: number; end: number };
+
+// The image path of the link at character ch of line, or of the only link on
+// the line. Null when there is none (or several and none under ch).
+export function linkAt(line: string, ch: number): LinkPath | null {
+  const found: (LinkPath & { linkStart: number; linkEnd: number })[] = [];
+  for (const re of LINK_PATTERNS) {
+    for (const m of line.matchAll(re)) {
+      const linkStart = m.index ?? 0;
+      const start = linkStart + m[1].length;
+      found.push({
+        path: m[2],
+        start,
+        end: start + m[2].length,
+        linkStart,
+        linkEnd: linkStart + m[0].length,
+      });
+    }
+  }
+  const hit =
+    found.find((f) => f.linkStart <= ch && ch <= f.linkEnd) ??
+    (found.length === 1 ? found[0] : undefined);
+  return hit ? { path: hit.path, start: hit.start, end: hit.end } : null;
+}
+
+export function linkPathAt(line: string, ch: number): string | null {
+  return linkAt(line, ch)?.path ?? null;
+}
+
+// Every image link in text (which may span lines), in order of appearance per
+// syntax.
+export function findLinks(text: string): LinkPath[] {
+  return LINK_PATTERNS.flatMap((re) =>
+    [...text.matchAll(re)].map((m) => {
+      const start = (m.index ?? 0) + m[1].length;
+      return { path: m[2], start, end: start + m[2].length };
+    }),
+  );
+}
+
+export function linkPaths(text: string): string[] {
+  return findLinks(text).map((l) => l.path);
+}
+
+// img/a.svg + "png" → img/a.png
+export function withExtension(p: string, ext: string): string {
+  return p.replace(/(\.[^./\\]*)?$/, `.${ext}`);
+}
+
+// ── Link template ─────────────────────────────────────────────────────────────
+
+function round(v: number, digits: number): string {
+  return String(Number(v.toFixed(digits)));
+}
+
+// Size variables can only be filled in once the converted file exists.
+export function templateNeedsSize(template: string): boolean {
+  return /\$\{(?:width|height)/.test(template);
+}
+
+// Size of a converted SVG (its root width/height) or PNG (its pixel size).
+// Undefined for other formats or when the size cannot be read.
+export function imageSizeOf(bytes: Buffer, ext: string): ImageSize | undefined {
+  if (ext === "svg") return svgRootSize(bytes.toString("utf8")) ?? undefined;
+  if (ext === "png" && bytes.length >= 24) {
+    return {
+      widthPx: bytes.readUInt32BE(16),
+      heightPx: bytes.readUInt32BE(20),
+    };
+  }
+  return undefined;
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&#39;",
+};
+
+function htmlEscape(s: string): string {
+  return s.replace(/[&<>"']/g, (c) => HTML_ENTITIES[c]);
+}
+
+// ${altText} escaped for where the template puts it: a template with HTML
+// tags gets entities, any other the escapes of the document's link syntax.
+function templateAltText(o: LinkOptions): string {
+  const alt = oneLine(o.altText);
+  if (/<[a-z]/i.test(o.template)) return htmlEscape(alt);
+  switch (o.style) {
+    case "markdown":
+      return mdEscape(alt);
+    case "latex":
+      return latexEscape(alt);
+    case "typst":
+      return typstEscape(alt);
+    default:
+      return alt;
+  }
+}
+
+// Variables: ${path}, ${fileName}, ${altText} (escaped, see templateAltText),
+// ${altTextRaw}, ${width}/${height} (CSS px) and ${widthMm}/${heightMm}. Size
+// variables are empty when the size is unknown.
+function expandLinkTemplate(rel: string, o: LinkOptions): string {
+  const px = (v: number | undefined) => (v === undefined ? "" : round(v, 0));
+  const mm = (v: number | undefined) =>
+    v === undefined ? "" : round((v * 25.4) / 96, 1);
+  return expandTemplate(o.template, {
+    path: rel,
+    fileName: rel.replace(/^.*[/:]/, ""),
+    altText: templateAltText(o),
+    altTextRaw: oneLine(o.altText),
+    width: px(o.size?.widthPx),
+    height: px(o.size?.heightPx),
+    widthMm: mm(o.size?.widthPx),
+    heightMm: mm(o.size?.heightPx),
+  });
+}
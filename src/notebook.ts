@@ -0,0 +1,113 @@
+import * as vscode from "vscode";
+import * as crypto from "crypto";
+import * as fs from "fs/promises";
+import * as path from "path";
+
+import { removeIfExists } from "./util";
+import { ClipboardPlan } from "./clipboard";
+import { CONTENT_HASH_LEN } from "./dedup";
+import { PasteSettings, formatLink } from "./paste";
+import { PasteTarget, pasteTarget, stagingPath } from "./core";
+import { CONVERSIONS } from "./queue";
+import { imageSizeOf } from "./links";
+
+// nbformat: attachment name → { mime type → base64 data }.
+type Attachments = Record<string, Record<string, string>>;
+
+const MIME_BY_EXT: Record<string, string> = {
+  svg: "image/svg+xml",
+  png: "image/png",
+  jpg: "image/jpeg",
+};
+
+// ── Cell lookup ───────────────────────────────────────────────────────────────
+
+// The notebook cell doc belongs to, or undefined for ordinary documents.
+export function notebookCellOf(
+  doc: vscode.TextDocument,
+): vscode.NotebookCell | undefined {
+  if (doc.uri.scheme !== "vscode-notebook-cell") return undefined;
+  for (const nb of vscode.workspace.notebookDocuments) {
+    const cell = nb.getCells().find((c) => c.document === doc);
+    if (cell) return cell;
+  }
+  return undefined;
+}
+
+// A cell's document path is the notebook's, which is not a directory the cell
+// can link into. Output is staged in a temporary file instead; the template
+// only names the attachment.
+export function attachmentTarget(
+  cell: vscode.NotebookCell,
+  s: PasteSettings,
+): PasteTarget {
+  return {
+    ...pasteTarget(cell.notebook.uri.fsPath, s),
+    makeOutAbs: stagingPath,
+  };
+}
+
+// ── Attaching ─────────────────────────────────────────────────────────────────
+
+// First free name from the template; a name already holding the same bytes is
+// reused.
+function attachmentName(
+  existing: Attachments,
+  target: PasteTarget,
+  ext: string,
+  hash: string,
+  mime: string,
+  data: string,
+): string {
+  for (let n = 0; n < 10_000; n++) {
+    const name = path
+      .basename(target.makeFinalAbs(ext, hash, n))
+      .replace(/\s+/g, "_");
+    const prev = existing[name];
+    if (!prev || prev[mime] === data) return name;
+  }
+  throw new Error("No free attachment name (10000 candidates taken).");
+}
+
+// Converts plan, stores the result in the cell's attachments and returns the
+// link to insert (e.g. ![](attachment:img.svg)). Conversion is awaited: the
+// attachment has to exist before the link is useful. The staged file is
+// removed afterwards.
+export async function attachToCell(
+  plan: ClipboardPlan,
+  cell: vscode.NotebookCell,
+  target: PasteTarget,
+  s: PasteSettings,
+  log: (msg: string) => void,
+): Promise<string> {
+  try {
+    await CONVERSIONS.run(path.basename(plan.outAbs), plan.convert);
+    const bytes = await fs.readFile(plan.outAbs);
+    const ext = path.extname(plan.outAbs).slice(1).toLowerCase();
+    const mime = MIME_BY_EXT[ext] ?? "application/octet-stream";
+    const data = bytes.toString("base64");
+    const hash = crypto
+      .createHash("sha256")
+      .update(bytes)
+      .digest("hex")
+      .slice(0, CONTENT_HASH_LEN);
+
+    const existing: Attachments = cell.metadata.attachments ?? {};
+    const name = attachmentName(existing, target, ext, hash, mime, data);
+    const edit = new vscode.WorkspaceEdit();
+    edit.set(cell.notebook.uri, [
+      vscode.NotebookEdit.updateCellMetadata(cell.index, {
+        ...cell.metadata,
+        attachments: { ...existing, [name]: { [mime]: data } },
+      }),
+    ]);
+    if (!(await vscode.workspace.applyEdit(edit))) {
+      throw new Error("The notebook rejected the attachment.");
+    }
+    log(`attach cell=${cell.index} name=${name} bytes=${bytes.length}`);
+    return formatLink(s, `attachment:${name}`, imageSizeOf(bytes, ext));
+  } finally {
+    await removeIfExists(plan.outAbs);
+    await plan.dispose?.();
+  }
+}
@@ -0,0 +1,105 @@
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+
+import {
+  ensureDir,
+  maybeGunzip,
+  moveFile,
+  nonce,
+  removeIfExists,
+  statSafe,
+  writeBytes,
+  writeFileAtomic,
+} from "./util";
+import { FitEngine, fitSvgCanvas } from "./svg";
+import { convertEmfToSvg } from "./emf";
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+// Clipboard data worth re-converting: EMF (scale, fit) and SVG (fit).
+export type OriginalExt = "emf" | "svg" | "svgz";
+
+// scalePercent: EMF only, null detects it from the EMF header.
+export type ReconvertOptions = {
+  scalePercent: number | null;
+  fit: boolean;
+  fitEngine: FitEngine;
+};
+
+// ── Original cache ────────────────────────────────────────────────────────────
+
+// Hidden folder next to the images holding the data each was converted from,
+// named after the output: .pastevector/img.svg.emf for img.svg.
+export const ORIGINALS_DIR = ".pastevector";
+
+export const ORIGINAL_EXTS: OriginalExt[] = ["emf", "svgz", "svg"];
+
+export function originalPath(outAbs: string, ext: OriginalExt): string {
+  return path.join(
+    path.dirname(outAbs),
+    ORIGINALS_DIR,
+    `${path.basename(outAbs)}.${ext}`,
+  );
+}
+
+export async function saveOriginal(
+  outAbs: string,
+  ext: OriginalExt,
+  bytes: Buffer,
+): Promise<string> {
+  const abs = originalPath(outAbs, ext);
+  await ensureDir(path.dirname(abs));
+  await writeFileAtomic(abs, bytes);
+  return abs;
+}
+
+// The cached original of outAbs, if any.
+export async function findOriginal(
+  outAbs: string,
+): Promise<{ abs: string; ext: OriginalExt } | null> {
+  for (const ext of ORIGINAL_EXTS) {
+    const abs = originalPath(outAbs, ext);
+    if ((await statSafe(abs)).exists) return { abs, ext };
+  }
+  return null;
+}
+
+export async function removeOriginals(outAbs: string): Promise<void> {
+  for (const ext of ORIGINAL_EXTS) {
+    await removeIfExists(originalPath(outAbs, ext));
+  }
+}
+
+// ── Re-conversion ─────────────────────────────────────────────────────────────
+
+// Converts the cached original again with other options and replaces outAbs.
+// The new file is built in a temporary file first, so a failed conversion
+// leaves outAbs untouched.
+export async function reconvertFromOriginal(
+  outAbs: string,
+  original: { abs: string; ext: OriginalExt },
+  o: ReconvertOptions,
+  log?: (msg: string) => void,
+): Promise<void> {
+  const tmpSvg = path.join(os.tmpdir(), `pastevector_${nonce()}.svg`);
+  try {
+    if (original.ext === "emf") {
+      await convertEmfToSvg(
+        original.abs,
+        tmpSvg,
+        o.scalePercent,
+        o.fit,
+        log,
+        o.fitEngine,
+      );
+    } else {
+      const bytes = await fs.readFile(original.abs);
+      await writeBytes(tmpSvg, await maybeGunzip(bytes));
+      if (o.fit) await fitSvgCanvas(tmpSvg, o.fitEngine, log);
+    }
+    await moveFile(tmpSvg, outAbs);
+  } finally {
+    await removeIfExists(tmpSvg);
+  }
+}
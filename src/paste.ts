@@ -0,0 +1,337 @@
+import * as vscode from "vscode";
+import * as fs from "fs/promises";
+import * as path from "path";
+
+import { relPosixNoDot, writeFileAtomic } from "./util";
+import { ClipboardPlan, FormatChoiceMap } from "./clipboard";
+import { parseFormatRules } from "./priority";
+import { CONVERSIONS, ConversionCancelledError } from "./queue";
+import {
+  DEFAULT_LINK_FORMATS,
+  altTextFromClipboard,
+  altTextFromFilename,
+  ImageSize,
+  LinkOptions,
+  LinkStyle,
+  formatImageLink,
+  imageSizeOf,
+  linkSeparator,
+  templateNeedsSize,
+} from "./links";
+import { FitEngine } from "./svg";
+import {
+  CoreOptions,
+  PasteTarget,
+  discardOutput,
+  placeOutput,
+  planClipboard,
+  saveExtras,
+} from "./core";
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export type AltTextMode =
+  "static" | "prompt" | "fromClipboardText" | "fromFilename";
+
+// The pipeline's options (see core.ts) plus what only the editor uses.
+export type PasteSettings = CoreOptions & {
+  altText: string;
+  altTextMode: AltTextMode;
+  copyMarkdownToClipboard: boolean;
+  replaceDefaultPaste: boolean;
+  // Link syntax for the document's language; null when pasteVector is not
+  // enabled for it (see pasteVector.linkFormats).
+  linkStyle: LinkStyle | null;
+  latexFigure: boolean;
+  notebookAttachments: boolean;
+};
+
+// ── Settings ──────────────────────────────────────────────────────────────────
+
+// pasteVector.linkFormats over the defaults; null turns a language off.
+function linkFormats(
+  cfg: vscode.WorkspaceConfiguration,
+): Record<string, LinkStyle | null> {
+  return {
+    ...DEFAULT_LINK_FORMATS,
+    ...cfg.get<Record<string, LinkStyle | null>>("pasteVector.linkFormats", {}),
+  };
+}
+
+// Language ids pasteVector inserts links in, per the window's settings.
+export function linkedLanguages(): string[] {
+  const formats = linkFormats(vscode.workspace.getConfiguration());
+  return Object.keys(formats).filter((id) => formats[id]);
+}
+
+// doc is the document being pasted into, so folder-level and language-specific
+// settings apply.
+export function readPasteSettings(doc: vscode.TextDocument): PasteSettings {
+  const cfg = vscode.workspace.getConfiguration(undefined, doc);
+  return {
+    preferBackend: cfg.get<"auto" | "wayland" | "x11">(
+      "pasteVector.preferBackend",
+      "auto",
+    ),
+    destinationTemplate: cfg.get<string>(
+      "pasteVector.destinationTemplate",
+      "img_${documentBaseName}_${unixTime}.${fileExtName}",
+    ),
+    altText: cfg.get<string>("pasteVector.altText", ""),
+    altTextMode: cfg.get<AltTextMode>("pasteVector.altTextMode", "static"),
+    copyMarkdownToClipboard: cfg.get<boolean>(
+      "pasteVector.copyMarkdownToClipboard",
+      false,
+    ),
+    finalizeSvg: cfg.get<boolean>("pasteVector.finalizeSvgWithInkscape", true),
+    emfScalePercent: cfg.get<number | null>(
+      "pasteVector.emfScalePercent",
+      null,
+    ),
+    finalizeEmfWithInkscape: cfg.get<boolean>(
+      "pasteVector.finalizeEmfWithInkscape",
+      true,
+    ),
+    fitEngine: cfg.get<FitEngine>("pasteVector.fitEngine", "builtin"),
+    deduplicate: cfg.get<boolean>("pasteVector.deduplicate", false),
+    replaceDefaultPaste: cfg.get<boolean>(
+      "pasteVector.replaceDefaultPaste",
+      false,
+    ),
+    formatPriority: parseFormatRules(
+      cfg.get<string[]>("pasteVector.formatPriority", []),
+    ),
+    linkStyle: linkFormats(cfg)[doc.languageId] ?? null,
+    latexFigure: cfg.get<boolean>("pasteVector.latexFigure", false),
+    notebookAttachments: cfg.get<boolean>(
+      "pasteVector.notebookAttachments",
+      true,
+    ),
+    linkTemplate: cfg.get<string>("pasteVector.linkTemplate", ""),
+    keepNativeStructure: cfg.get<boolean>(
+      "pasteVector.keepNativeStructure",
+      true,
+    ),
+    keepOriginals: cfg.get<boolean>("pasteVector.keepOriginals", false),
+  };
+}
+
+// ── Planning ──────────────────────────────────────────────────────────────────
+
+// Plans a paste of the clipboard (see planClipboard) with its text as VS Code
+// reads it.
+export async function planClipboardPaste(
+  s: PasteSettings,
+  target: PasteTarget,
+  log: (msg: string) => void,
+  remembered: FormatChoiceMap = {},
+): Promise<ClipboardPlan | null> {
+  const clipText = (await vscode.env.clipboard.readText()) ?? "";
+  return planClipboard(s, clipText, target, log, remembered);
+}
+
+// ── Conversion ────────────────────────────────────────────────────────────────
+
+// Where a link to plan.outAbs was inserted. The text embeds the unique output
+// file name, so it is found again by searching the document.
+export type InsertedLink = { uri: vscode.Uri; text: string };
+
+// fromFilename alt text is taken from rel here: in hash mode the final name is
+// only known after conversion.
+function linkOptions(
+  s: PasteSettings,
+  rel: string,
+  size?: ImageSize,
+): LinkOptions {
+  return {
+    style: s.linkStyle ?? "markdown",
+    altText:
+      s.altTextMode === "fromFilename" ? altTextFromFilename(rel) : s.altText,
+    latexFigure: s.latexFigure,
+    template: s.linkTemplate,
+    size,
+  };
+}
+
+// The image link to rel (document-relative, or e.g. attachment:name) in the
+// document's syntax or pasteVector.linkTemplate.
+export function formatLink(
+  s: PasteSettings,
+  rel: string,
+  size?: ImageSize,
+): string {
+  return formatImageLink(rel, linkOptions(s, rel, size));
+}
+
+// The image link inserted for outAbs.
+export function imageLink(
+  target: PasteTarget,
+  s: PasteSettings,
+  outAbs: string,
+  size?: ImageSize,
+): string {
+  return formatLink(s, relPosixNoDot(target.docDir, outAbs), size);
+}
+
+// Joins the links of several images (e.g. a multi-file drop).
+export function joinImageLinks(s: PasteSettings, links: string[]): string {
+  return links.join(linkSeparator(linkOptions(s, "")));
+}
+
+// Settings for one paste with the alt text filled in per
+// pasteVector.altTextMode: from the text the clipboard carried alongside the
+// image, or asked for with that (or the file name) as suggestion. A cancelled
+// prompt keeps pasteVector.altText.
+export async function withAltText(
+  s: PasteSettings,
+  plan: ClipboardPlan,
+  target: PasteTarget,
+): Promise<PasteSettings> {
+  const fromText = altTextFromClipboard(plan.text ?? "");
+  if (s.altTextMode === "fromClipboardText") {
+    return fromText ? { ...s, altText: fromText } : s;
+  }
+  if (s.altTextMode !== "prompt") return s;
+
+  // Staged hash-mode names are not meaningful.
+  const fromName = target.hashMode ? "" : altTextFromFilename(plan.outAbs);
+  const altText = await vscode.window.showInputBox({
+    title: "pasteVector: Alt text",
+    prompt: `Alt text for the pasted ${path.extname(plan.outAbs).slice(1).toUpperCase()} image`,
+    value: fromText || fromName || s.altText,
+  });
+  return altText === undefined ? s : { ...s, altText };
+}
+
+// Deletes every occurrence of the link (one per cursor of a multi-cursor
+// paste). Returns how many were removed.
+async function removeLink(link: InsertedLink): Promise<number> {
+  const doc = await vscode.workspace.openTextDocument(link.uri);
+  const text = doc.getText();
+  const edit = new vscode.WorkspaceEdit();
+  let n = 0;
+  for (
+    let i = text.indexOf(link.text);
+    i >= 0;
+    i = text.indexOf(link.text, i + link.text.length)
+  ) {
+    const end = i + link.text.length;
+    edit.delete(
+      link.uri,
+      new vscode.Range(doc.positionAt(i), doc.positionAt(end)),
+    );
+    n++;
+  }
+  if (n) await vscode.workspace.applyEdit(edit);
+  return n;
+}
+
+// Queues plan.convert() in the background. On failure the link already points
+// to a missing file, so the user can retry with the captured bytes, remove
+// the link, or keep it with a placeholder image (SVG output only). Errors
+// after that (saving extras, removing the link from a closed or deleted
+// document, writing the placeholder) are reported as well.
+function runConvert(
+  plan: ClipboardPlan,
+  s: PasteSettings,
+  log: (msg: string) => void,
+  link: InsertedLink,
+): void {
+  const name = path.basename(plan.outAbs);
+  CONVERSIONS.run(name, plan.convert)
+    .then(
+      async () => {
+        await saveExtras(plan, plan.outAbs, s, log);
+        await plan.dispose?.();
+      },
+      (e: any) => onConvertFailed(plan, s, log, link, e),
+    )
+    .catch((e: any) => {
+      const msg = e?.message ?? String(e);
+      log(`error finish ${plan.outAbs}: ${msg}`);
+      vscode.window.showErrorMessage(
+        `pasteVector: Could not finish pasting ${name} — ${msg}`,
+      );
+    });
+}
+
+// Drawn in place of an SVG whose conversion failed, so the link shows what
+// happened instead of a broken image.
+const PLACEHOLDER_SVG = [
+  '<svg xmlns="http://www.w3.org/2000/svg" width="240" height="80" viewBox="0 0 240 80">',
+  '<rect x="1" y="1" width="238" height="78" fill="#f6f6f6" stroke="#c33" stroke-width="2" stroke-dasharray="6 4"/>',
+  '<text x="120" y="45" font-family="sans-serif" font-size="14" text-anchor="middle" fill="#c33">pasteVector: conversion failed</text>',
+  "</svg>",
+  "",
+].join("\n");
+
+async function onConvertFailed(
+  plan: ClipboardPlan,
+  s: PasteSettings,
+  log: (msg: string) => void,
+  link: InsertedLink,
+  e: any,
+): Promise<void> {
+  const msg = e?.message ?? String(e);
+  log(`error ${plan.handler}: ${msg}`);
+  // Only SVG output can be replaced by a drawn placeholder.
+  const canHold = path.extname(plan.outAbs).toLowerCase() === ".svg";
+  const choice = await vscode.window.showErrorMessage(
+    e instanceof ConversionCancelledError
+      ? `pasteVector: Conversion of ${path.basename(plan.outAbs)} cancelled.`
+      : `pasteVector: Conversion failed — ${msg}`,
+    "Retry",
+    "Remove link",
+    ...(canHold ? ["Keep as placeholder"] : []),
+  );
+  if (choice === "Retry") {
+    log(`retry handler=${plan.handler} -> ${plan.outAbs}`);
+    runConvert(plan, s, log, link);
+    return;
+  }
+  // A link left in place keeps its name reserved, so no later paste ends up
+  // behind it.
+  if (choice === "Remove link") {
+    const n = await removeLink(link);
+    log(`removed ${n} link(s) to ${plan.outAbs}`);
+    await discardOutput(plan);
+  } else if (choice === "Keep as placeholder") {
+    await writeFileAtomic(plan.outAbs, PLACEHOLDER_SVG);
+    log(`placeholder -> ${plan.outAbs}`);
+  }
+  await plan.dispose?.();
+}
+
+// Starts conversion and returns the path the link points to, with the link to
+// insert into doc. Normally that is plan.outAbs and conversion runs in the
+// background. ${contentHash} and dedup need the converted bytes to pick the
+// file, and a link template with size variables needs the converted image, so
+// then conversion finishes first; on failure the output is removed and the
+// error is rethrown.
+export async function startConversion(
+  plan: ClipboardPlan,
+  target: PasteTarget,
+  s: PasteSettings,
+  log: (msg: string) => void,
+  doc: vscode.Uri,
+): Promise<{ outAbs: string; link: string }> {
+  if (!target.linkAfterConversion) {
+    const link = imageLink(target, s, plan.outAbs);
+    runConvert(plan, s, log, { uri: doc, text: link });
+    return { outAbs: plan.outAbs, link };
+  }
+  try {
+    await CONVERSIONS.run(path.basename(plan.outAbs), plan.convert);
+    const outAbs = await placeOutput(plan, target, s, log);
+    const ext = path.extname(outAbs).slice(1).toLowerCase();
+    const size = templateNeedsSize(s.linkTemplate)
+      ? imageSizeOf(await fs.readFile(outAbs), ext)
+      : undefined;
+    return { outAbs, link: imageLink(target, s, outAbs, size) };
+  } catch (e) {
+    await discardOutput(plan);
+    throw e;
+  } finally {
+    await plan.dispose?.();
+  }
+}
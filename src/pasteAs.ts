@@ -0,0 +1,56 @@
+import * as vscode from "vscode";
+
+import { ClipboardFormatOption, ClipboardOffer } from "./clipboard";
+
+type FormatItem = vscode.QuickPickItem & { option: ClipboardFormatOption };
+
+// ── Format picker ─────────────────────────────────────────────────────────────
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Lets the user pick one of the offered formats. Each item carries a pin
+// button that picks it and asks to remember the choice for the source
+// application (only shown when the source is known).
+export function pickClipboardFormat(
+  offer: ClipboardOffer,
+): Promise<{ option: ClipboardFormatOption; remember: boolean } | undefined> {
+  const pin: vscode.QuickInputButton = {
+    iconPath: new vscode.ThemeIcon("pin"),
+    tooltip: `Remember this choice for ${offer.sourceName ?? "this source application"}`,
+  };
+
+  const qp = vscode.window.createQuickPick<FormatItem>();
+  qp.title = "pasteVector: Paste As…";
+  qp.placeholder = offer.sourceName
+    ? `Clipboard from ${offer.sourceName} — pick a format`
+    : "Pick a clipboard format";
+  qp.items = offer.options.map((option) => ({
+    option,
+    label: option.type,
+    description: `${formatSize(option.size)} → .${option.ext}`,
+    detail: `handler: ${option.format}`,
+    buttons: offer.source ? [pin] : [],
+  }));
+
+  return new Promise((resolve) => {
+    let result: { option: ClipboardFormatOption; remember: boolean };
+    qp.onDidAccept(() => {
+      const item = qp.selectedItems[0];
+      if (item) result = { option: item.option, remember: false };
+      qp.hide();
+    });
+    qp.onDidTriggerItemButton((e) => {
+      result = { option: e.item.option, remember: true };
+      qp.hide();
+    });
+    qp.onDidHide(() => {
+      qp.dispose();
+      resolve(result);
+    });
+    qp.show();
+  });
+}
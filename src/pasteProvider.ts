@@ -0,0 +1,127 @@
+import * as vscode from "vscode";
+
+import { isWSL, relPosixNoDot } from "./util";
+import { FormatChoices } from "./formatChoices";
+import {
+  PasteSettings,
+  planClipboardPaste,
+  readPasteSettings,
+  startConversion,
+  withAltText,
+} from "./paste";
+import { clipboardMayHaveImage, pasteTarget } from "./core";
+import { attachToCell, attachmentTarget, notebookCellOf } from "./notebook";
+
+// ── Paste edit provider ───────────────────────────────────────────────────────
+
+export const VECTOR_PASTE_KIND =
+  vscode.DocumentDropOrPasteEditKind.Empty.append("pasteVector", "image");
+
+// Kinds our edit ranks below unless pasteVector.replaceDefaultPaste is set.
+const YIELD_TO = [
+  vscode.DocumentDropOrPasteEditKind.Text,
+  vscode.DocumentDropOrPasteEditKind.Empty.append("markdown", "link"),
+];
+
+class VectorPasteEdit extends vscode.DocumentPasteEdit {
+  constructor(
+    public settings: PasteSettings,
+    public document: vscode.TextDocument,
+    public clipText: string,
+    public cell?: vscode.NotebookCell,
+  ) {
+    super("", "Paste as vector image", VECTOR_PASTE_KIND);
+  }
+}
+
+// Offers "Paste as vector image" in the paste widget. Offering it runs on
+// every paste, so it only checks the clipboard's types (see
+// clipboardMayHaveImage); the clipboard is exported and conversion started
+// once VS Code resolves the edit, i.e. when it is actually applied. Should the
+// image be gone by then, or export or conversion fail, the clipboard text is
+// pasted instead. The same link
+// text is inserted at every cursor. In notebook Markdown cells the image
+// becomes a cell attachment.
+export class VectorPasteEditProvider implements vscode.DocumentPasteEditProvider<VectorPasteEdit> {
+  constructor(
+    private readonly log: (msg: string) => void,
+    private readonly choices: FormatChoices,
+  ) {}
+
+  async provideDocumentPasteEdits(
+    document: vscode.TextDocument,
+    _ranges: readonly vscode.Range[],
+    dataTransfer: vscode.DataTransfer,
+    _context: vscode.DocumentPasteEditContext,
+    token: vscode.CancellationToken,
+  ): Promise<VectorPasteEdit[] | undefined> {
+    const s = readPasteSettings(document);
+    if (!s.linkStyle) return undefined;
+    const cell = s.notebookAttachments ? notebookCellOf(document) : undefined;
+    if (document.uri.scheme !== "file" && !cell) return undefined;
+
+    const clipText = (await dataTransfer.get("text/plain")?.asString()) ?? "";
+    let hasImage = false;
+    dataTransfer.forEach((_item, mime) => {
+      if (mime.startsWith("image/")) hasImage = true;
+    });
+    hasImage ||= await clipboardMayHaveImage(s, clipText, this.log);
+    if (!hasImage || token.isCancellationRequested) return undefined;
+
+    const edit = new VectorPasteEdit(s, document, clipText, cell);
+    if (!s.replaceDefaultPaste) edit.yieldTo = YIELD_TO;
+    return [edit];
+  }
+
+  async resolveDocumentPasteEdit(
+    edit: VectorPasteEdit,
+    _token: vscode.CancellationToken,
+  ): Promise<VectorPasteEdit> {
+    const { document, cell } = edit;
+    const target = cell
+      ? attachmentTarget(cell, edit.settings)
+      : pasteTarget(document.uri.fsPath, edit.settings);
+    let handler = "paste";
+    try {
+      const plan = await planClipboardPaste(
+        edit.settings,
+        target,
+        this.log,
+        this.choices.all(),
+      );
+      if (!plan) {
+        this.log("paste: no image on the clipboard any more, pasting text");
+        edit.insertText = edit.clipText;
+        return edit;
+      }
+      handler = plan.handler;
+
+      const s = await withAltText(edit.settings, plan, target);
+      let where: string;
+      if (cell) {
+        edit.insertText = await attachToCell(plan, cell, target, s, this.log);
+        where = `cell ${cell.index}`;
+      } else {
+        const { outAbs, link } = await startConversion(
+          plan,
+          target,
+          s,
+          this.log,
+          document.uri,
+        );
+        edit.insertText = link;
+        where = relPosixNoDot(target.docDir, outAbs);
+      }
+      if (s.copyMarkdownToClipboard && !isWSL()) {
+        await vscode.env.clipboard.writeText(edit.insertText);
+      }
+      this.log(`ok handler=${plan.handler} type=${plan.usedType} -> ${where}`);
+    } catch (e: any) {
+      const msg = e?.message ?? String(e);
+      this.log(`error ${handler}: ${msg}, pasting text`);
+      vscode.window.showErrorMessage(`pasteVector: Conversion failed — ${msg}`);
+      edit.insertText = edit.clipText;
+    }
+    return edit;
+  }
+}
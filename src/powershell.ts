@@ -0,0 +1,193 @@
+import * as cp from "child_process";
+import * as net from "net";
+import * as readline from "readline";
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+// Same shape as runText's result: code is the script's exit code (see
+// HELPER_SCRIPT), or -1 when the helper timed out, exited, could not be
+// started or sent an unreadable end line.
+export type ScriptResult = {
+  code: number | null;
+  stdout: string;
+  stderr: string;
+};
+
+type Request = {
+  out: string[];
+  err: string[];
+  timer: NodeJS.Timeout;
+  resolve: (r: ScriptResult) => void;
+};
+
+// ── Constants ─────────────────────────────────────────────────────────────────
+
+// Extra time for the first request of a new helper: powershell.exe startup
+// and the first Add-Type compile happen there.
+const T_START_MS = 8_000;
+
+// Helper loop, a generic script runner: it knows nothing about clipboards,
+// every request carries the whole script. Protocol, one line each way:
+//   request   run <base64 UTF-8 script>
+//   response  o <output line> | e <error line> ... then end <exit code>
+// Each script is saved to a temporary .ps1 and run with & in the helper's
+// own STA session, so types compiled with Add-Type (ClipNative) stay loaded
+// for the next request. exit <n> ends the script file only and becomes the
+// exit code; a script without exit ends with 0, one that throws with 1.
+// The loop ends when stdin closes.
+const HELPER_SCRIPT = [
+  "$utf8=New-Object System.Text.UTF8Encoding $false;",
+  "[Console]::InputEncoding=$utf8; [Console]::OutputEncoding=$utf8;",
+  // Windows PowerShell reads a .ps1 without BOM as ANSI.
+  "$bom=New-Object System.Text.UTF8Encoding $true;",
+  '$file=Join-Path ([System.IO.Path]::GetTempPath()) "pastevector-helper-$PID.ps1";',
+  "function Send($tag, $text) {",
+  "  foreach($l in ([string]$text -split '\\r?\\n')) { [Console]::Out.WriteLine(\"$tag $l\") }",
+  "}",
+  "while($true) {",
+  "  $line=[Console]::In.ReadLine();",
+  "  if($line -eq $null) { break }",
+  "  if(-not $line.StartsWith('run ')) { continue }",
+  "  try {",
+  "    $src=[System.Text.Encoding]::UTF8.GetString([Convert]::FromBase64String($line.Substring(4)));",
+  "    [System.IO.File]::WriteAllText($file, $src, $bom);",
+  "    $global:LASTEXITCODE=0;",
+  "    & $file 2>&1 | ForEach-Object {",
+  "      if($_ -is [System.Management.Automation.ErrorRecord]) { Send 'e' $_ } else { Send 'o' $_ }",
+  "    };",
+  "    $code=$global:LASTEXITCODE;",
+  "  } catch { Send 'e' $_; $code=1 }",
+  "  if($code -eq $null) { $code=0 }",
+  '  [Console]::Out.WriteLine("end $code");',
+  "  [Console]::Out.Flush();",
+  "}",
+  "Remove-Item -LiteralPath $file -ErrorAction SilentlyContinue;",
+].join("\n");
+
+// ── Helper process ────────────────────────────────────────────────────────────
+
+// A long-lived script runner speaking the HELPER_SCRIPT protocol over
+// stdin/stdout. Requests are queued and answered one at a time. The process
+// is started on the first request and again after it exits, crashes or
+// times out (a timed-out helper is killed, as it may be stuck on the
+// clipboard). It does not keep Node running: a CLI exits when its work is
+// done, and the helper ends with its closed stdin.
+export class PowerShellHelper {
+  private proc: cp.ChildProcess | null = null;
+  private current: Request | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly cmd: string,
+    private readonly args: string[],
+  ) {}
+
+  get running(): boolean {
+    return this.proc !== null;
+  }
+
+  run(script: string, timeoutMs: number): Promise<ScriptResult> {
+    const result = this.queue.then(() => this.request(script, timeoutMs));
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  // Kills the helper if a request is running; that request settles with -1
+  // and queued ones start a new helper. Returns whether one was running.
+  cancel(): boolean {
+    if (!this.current) return false;
+    this.finish(-1, "[CANCELLED]");
+    this.stop();
+    return true;
+  }
+
+  dispose(): void {
+    this.finish(-1, "[HELPER DISPOSED]");
+    this.stop();
+  }
+
+  private request(script: string, timeoutMs: number): Promise<ScriptResult> {
+    return new Promise((resolve) => {
+      const fresh = !this.proc;
+      const proc = this.proc ?? this.start();
+      const ms = timeoutMs + (fresh ? T_START_MS : 0);
+      const timer = setTimeout(() => {
+        this.finish(-1, `[TIMEOUT ${ms}ms]`);
+        this.stop();
+      }, ms);
+      this.current = { out: [], err: [], timer, resolve };
+      const payload = Buffer.from(script, "utf8").toString("base64");
+      proc.stdin!.write(`run ${payload}\n`);
+    });
+  }
+
+  private start(): cp.ChildProcess {
+    const p = cp.spawn(this.cmd, this.args, {
+      stdio: ["pipe", "pipe", "pipe"],
+    });
+    this.proc = p;
+    p.stdout!.setEncoding("utf8");
+    p.stderr!.setEncoding("utf8");
+    // A killed helper's pipes can still deliver output (a grandchild may hold
+    // them open); it belongs to a request that already settled.
+    readline
+      .createInterface({ input: p.stdout!, crlfDelay: Infinity })
+      .on("line", (line) => {
+        if (this.proc === p) this.onLine(line);
+      });
+    p.stderr!.on("data", (d: string) => {
+      if (this.proc === p) this.current?.err.push(d.trimEnd());
+    });
+    // Write errors after a crash are reported by the exit handler.
+    p.stdin!.on("error", () => {});
+    const gone = (why: string) => {
+      if (this.proc !== p) return;
+      this.proc = null;
+      this.finish(-1, why);
+    };
+    p.on("exit", (code) => gone(`[HELPER EXITED ${code}]`));
+    p.on("error", (e) => gone(`[SPAWN ERROR] ${e?.message ?? String(e)}`));
+
+    p.unref();
+    for (const s of [p.stdin, p.stdout, p.stderr]) (s as net.Socket).unref();
+    return p;
+  }
+
+  private onLine(line: string): void {
+    const r = this.current;
+    if (!r) return;
+    if (line.startsWith("o ")) r.out.push(line.slice(2));
+    else if (line.startsWith("e ")) r.err.push(line.slice(2));
+    else if (line.startsWith("end ")) this.finish(Number(line.slice(4)));
+  }
+
+  // Settles the current request; note is appended to its stderr.
+  private finish(code: number, note?: string): void {
+    const r = this.current;
+    if (!r) return;
+    this.current = null;
+    clearTimeout(r.timer);
+    const stdout = r.out.map((l) => `${l}\n`).join("");
+    const stderr = [...r.err, ...(note ? [note] : [])].join("\n");
+    r.resolve({ code: Number.isFinite(code) ? code : -1, stdout, stderr });
+  }
+
+  private stop(): void {
+    const p = this.proc;
+    this.proc = null;
+    try {
+      p?.kill("SIGKILL");
+    } catch {}
+  }
+}
+
+// Runs every Windows clipboard script under WSL.
+export const POWERSHELL = new PowerShellHelper("powershell.exe", [
+  "-NoProfile",
+  "-STA",
+  // Requests run as .ps1 files, which the default policy may refuse.
+  "-ExecutionPolicy",
+  "Bypass",
+  "-Command",
+  HELPER_SCRIPT,
+]);
@@ -0,0 +1,50 @@
+// ── Format priority rules ─────────────────────────────────────────────────────
+
+// Parsed pasteVector.formatPriority. Entries are handler names ("emf", "png")
+// or clipboard types ("image/png"), case-insensitive; "!" excludes.
+export type FormatRules = { order: string[]; exclude: string[] };
+
+// A clipboard format as the rules see it: its handler name and the types
+// (MIME or Windows format names) it was offered under.
+export type FormatKey = { name: string; types: string[] };
+
+export const NO_RULES: FormatRules = { order: [], exclude: [] };
+
+export function parseFormatRules(entries: readonly string[]): FormatRules {
+  const rules: FormatRules = { order: [], exclude: [] };
+  for (const raw of entries) {
+    const e = raw.trim().toLowerCase();
+    if (e.startsWith("!")) {
+      const name = e.slice(1).trim();
+      if (name) rules.exclude.push(name);
+    } else if (e) {
+      rules.order.push(e);
+    }
+  }
+  return rules;
+}
+
+function matches(key: FormatKey, entry: string): boolean {
+  return (
+    key.name.toLowerCase() === entry ||
+    key.types.some((t) => t.toLowerCase() === entry)
+  );
+}
+
+// Drops excluded items and moves listed ones to the front in list order.
+// Unlisted items keep their relative (built-in) order after the listed ones.
+export function applyFormatRules<T>(
+  items: readonly T[],
+  keyOf: (item: T) => FormatKey,
+  rules: FormatRules,
+): T[] {
+  const rank = (item: T) => {
+    const i = rules.order.findIndex((e) => matches(keyOf(item), e));
+    return i < 0 ? rules.order.length : i;
+  };
+  return items
+    .filter((item) => !rules.exclude.some((e) => matches(keyOf(item), e)))
+    .map((item, i) => ({ item, i, r: rank(item) }))
+    .sort((a, b) => a.r - b.r || a.i - b.i)
+    .map((x) => x.item);
+}
@@ -0,0 +1,115 @@
+import { runWithAbortSignal } from "./util";
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export class ConversionCancelledError extends Error {
+  constructor() {
+    super("Conversion cancelled.");
+  }
+}
+
+type Job = {
+  label: string;
+  run: () => Promise<void>;
+  abort: AbortController;
+  resolve: () => void;
+  reject: (e: unknown) => void;
+};
+
+// ── Conversion queue ──────────────────────────────────────────────────────────
+
+// Runs conversions at most `limit` at a time, in paste order. cancelAll()
+// drops queued jobs and kills the external tools running jobs started (each
+// job runs under its own abort signal, see runWithAbortSignal); other
+// processes are left alone. In-process work (builtin EMF converter, builtin
+// fitter) cannot be interrupted and finishes normally. A cancelled job is
+// rejected with ConversionCancelledError even when it still completes, as its
+// output may be unfinished (e.g. an unfitted SVG).
+export class ConversionQueue {
+  limit = 2;
+
+  private readonly pending: Job[] = [];
+  private readonly active = new Set<Job>();
+  private readonly cancelled = new Set<Job>();
+  private readonly listeners = new Set<() => void>();
+
+  get runningCount(): number {
+    return this.active.size;
+  }
+
+  get pendingCount(): number {
+    return this.pending.length;
+  }
+
+  get runningLabels(): string[] {
+    return [...this.active].map((j) => j.label);
+  }
+
+  run(label: string, fn: () => Promise<void>): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.pending.push({
+        label,
+        run: fn,
+        abort: new AbortController(),
+        resolve,
+        reject,
+      });
+      this.pump();
+    });
+  }
+
+  // Returns how many queued and running jobs were cancelled.
+  cancelAll(): number {
+    const n = this.pending.length + this.active.size;
+    for (const job of this.pending.splice(0)) {
+      job.reject(new ConversionCancelledError());
+    }
+    for (const job of this.active) {
+      this.cancelled.add(job);
+      job.abort.abort();
+    }
+    this.changed();
+    return n;
+  }
+
+  onDidChange(listener: () => void): { dispose: () => void } {
+    this.listeners.add(listener);
+    return { dispose: () => this.listeners.delete(listener) };
+  }
+
+  private pump(): void {
+    while (this.active.size < Math.max(1, this.limit) && this.pending.length) {
+      const job = this.pending.shift()!;
+      this.active.add(job);
+      runWithAbortSignal(job.abort.signal, job.run).then(
+        () =>
+          this.finish(job, (cancelled) =>
+            cancelled
+              ? job.reject(new ConversionCancelledError())
+              : job.resolve(),
+          ),
+        (e) =>
+          this.finish(job, (cancelled) =>
+            job.reject(cancelled ? new ConversionCancelledError() : e),
+          ),
+      );
+    }
+    this.changed();
+  }
+
+  // Frees the job's slot and starts the next job before settling, so callers
+  // resuming after the settle see up-to-date counts.
+  private finish(job: Job, settle: (cancelled: boolean) => void): void {
+    const cancelled = this.cancelled.delete(job);
+    this.active.delete(job);
+    this.pump();
+    settle(cancelled);
+  }
+
+  private changed(): void {
+    for (const l of this.listeners) l();
+  }
+}
+
+// Shared by every paste, drop and retry in the window.
+export const CONVERSIONS = new ConversionQueue();
@@ -0,0 +1,155 @@
+import * as vscode from "vscode";
+import * as path from "path";
+
+import { FitEngine } from "./svg";
+import {
+  ReconvertOptions,
+  findOriginal,
+  reconvertFromOriginal,
+} from "./originals";
+import { commandImage } from "./editorImage";
+import { CONVERSIONS } from "./queue";
+
+type FitItem = vscode.QuickPickItem & { fit: boolean; fitEngine: FitEngine };
+
+// ── Option pickers ────────────────────────────────────────────────────────────
+
+const SCALES = [100, 125, 150, 175, 200];
+
+// Returns the EMF scale (null = from the header), or undefined when cancelled.
+async function pickScale(
+  current: number | null,
+): Promise<number | null | undefined> {
+  const mark = (v: number | null) => (v === current ? "current setting" : "");
+  const items: (vscode.QuickPickItem & { value: number | null | "other" })[] = [
+    {
+      label: "Auto",
+      detail: "Detect the scale from the EMF header",
+      description: mark(null),
+      value: null,
+    },
+    ...SCALES.map((v) => ({
+      label: `${v}%`,
+      description: mark(v),
+      value: v,
+    })),
+    { label: "Other…", value: "other" as const },
+  ];
+  const picked = await vscode.window.showQuickPick(items, {
+    title: "pasteVector: Re-convert — EMF scale",
+    placeHolder: "Display scale the EMF was recorded at",
+  });
+  if (!picked) return undefined;
+  if (picked.value !== "other") return picked.value;
+
+  const typed = await vscode.window.showInputBox({
+    title: "pasteVector: Re-convert — EMF scale",
+    prompt: "Scale in percent (e.g. 140)",
+    validateInput: (v) =>
+      +v > 0 ? undefined : "Enter a positive number of percent.",
+  });
+  return typed === undefined ? undefined : +typed;
+}
+
+async function pickFit(
+  currentFit: boolean,
+  currentEngine: FitEngine,
+): Promise<FitItem | undefined> {
+  const items: FitItem[] = [
+    {
+      label: "Fit canvas (builtin)",
+      fit: true,
+      fitEngine: "builtin",
+    },
+    {
+      label: "Fit canvas (Inkscape)",
+      fit: true,
+      fitEngine: "inkscape",
+    },
+    {
+      label: "Don't fit",
+      detail: "Keep the canvas as converted",
+      fit: false,
+      fitEngine: currentEngine,
+    },
+  ];
+  for (const item of items) {
+    const current =
+      item.fit === currentFit &&
+      (!item.fit || item.fitEngine === currentEngine);
+    if (current) item.description = "current setting";
+  }
+  return vscode.window.showQuickPick(items, {
+    title: "pasteVector: Re-convert — canvas",
+  });
+}
+
+// ── Re-convert command ────────────────────────────────────────────────────────
+
+// "Re-convert Image Under Cursor": asks for a scale (EMF) and fit option and
+// converts the image's cached original again, overwriting the image.
+export async function reconvertImage(
+  log: (msg: string) => void,
+  uri?: vscode.Uri,
+): Promise<void> {
+  const imageAbs = commandImage(uri);
+  if (!imageAbs) {
+    vscode.window.showInformationMessage(
+      "pasteVector: Place the cursor on an image link, or run this from the Explorer on an image.",
+    );
+    return;
+  }
+  const name = path.basename(imageAbs);
+  const original = await findOriginal(imageAbs);
+  if (!original) {
+    vscode.window.showInformationMessage(
+      `pasteVector: No cached original for ${name}. Only images pasted with pasteVector.keepOriginals on can be re-converted.`,
+    );
+    return;
+  }
+
+  const cfg = vscode.workspace.getConfiguration(
+    undefined,
+    vscode.Uri.file(imageAbs),
+  );
+  const isEmf = original.ext === "emf";
+  let scalePercent: number | null = null;
+  if (isEmf) {
+    const picked = await pickScale(
+      cfg.get<number | null>("pasteVector.emfScalePercent", null),
+    );
+    if (picked === undefined) return;
+    scalePercent = picked;
+  }
+  const fit = await pickFit(
+    cfg.get<boolean>(
+      isEmf
+        ? "pasteVector.finalizeEmfWithInkscape"
+        : "pasteVector.finalizeSvgWithInkscape",
+      true,
+    ),
+    cfg.get<FitEngine>("pasteVector.fitEngine", "builtin"),
+  );
+  if (!fit) return;
+
+  const o: ReconvertOptions = {
+    scalePercent,
+    fit: fit.fit,
+    fitEngine: fit.fitEngine,
+  };
+  log(
+    `reconvert ${imageAbs} from ${original.ext} scale=${scalePercent ?? "auto"} fit=${o.fit ? o.fitEngine : "off"}`,
+  );
+  try {
+    await CONVERSIONS.run(name, () =>
+      reconvertFromOriginal(imageAbs, original, o, log),
+    );
+    vscode.window.showInformationMessage(`pasteVector: Re-converted ${name}.`);
+  } catch (e: any) {
+    const msg = e?.message ?? String(e);
+    log(`error reconvert: ${msg}`);
+    vscode.window.showErrorMessage(
+      `pasteVector: Re-conversion failed — ${msg}`,
+    );
+  }
+}
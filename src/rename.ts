@@ -0,0 +1,168 @@
+import * as vscode from "vscode";
+import * as fs from "fs/promises";
+import * as path from "path";
+
+import { ensureDir, moveFile, statSafe } from "./util";
+import {
+  FileMove,
+  LinkEdit,
+  companionPaths,
+  isLinkingDoc,
+  linkedFiles,
+  ownedAssetMoves,
+  relinkEdits,
+} from "./assets";
+import { readLinkingDocs } from "./workspaceDocs";
+
+export type RenameMode = "off" | "move" | "moveAndRename";
+
+// ── Moving images ─────────────────────────────────────────────────────────────
+
+// Moves each image with its structure files and cached original. An image
+// whose destination is taken (or that is gone) stays put and is left out of
+// the result, so its links are not changed.
+async function moveAssets(
+  moves: FileMove[],
+  log: (msg: string) => void,
+): Promise<FileMove[]> {
+  const done: FileMove[] = [];
+  for (const m of moves) {
+    if (!(await statSafe(m.from)).exists) continue;
+    if ((await statSafe(m.to)).exists) {
+      log(`warn rename: ${m.to} exists, ${m.from} not moved`);
+      continue;
+    }
+    try {
+      const from = [m.from, ...companionPaths(m.from)];
+      const to = [m.to, ...companionPaths(m.to)];
+      for (const [i, abs] of from.entries()) {
+        if (i > 0 && !(await statSafe(abs)).exists) continue;
+        await ensureDir(path.dirname(to[i]));
+        await moveFile(abs, to[i]);
+      }
+      log(`rename ${m.from} -> ${m.to}`);
+      done.push(m);
+    } catch (e: any) {
+      log(`warn rename ${m.from} failed: ${e?.message ?? String(e)}`);
+    }
+  }
+  return done;
+}
+
+// ── Rewriting links ───────────────────────────────────────────────────────────
+
+function addEdits(
+  edit: vscode.WorkspaceEdit,
+  doc: vscode.TextDocument,
+  edits: LinkEdit[],
+): void {
+  for (const e of edits) {
+    edit.replace(
+      doc.uri,
+      new vscode.Range(doc.positionAt(e.start), doc.positionAt(e.end)),
+      e.text,
+    );
+  }
+}
+
+// Documents other than skip linking a moved image. Notebooks are left out:
+// their cells cannot be edited as text.
+async function docsLinking(
+  moves: FileMove[],
+  skip: string,
+): Promise<vscode.TextDocument[]> {
+  const from = new Set(moves.map((m) => m.from));
+  const docs: vscode.TextDocument[] = [];
+  for (const d of await readLinkingDocs()) {
+    if (d.abs === skip || path.extname(d.abs).toLowerCase() === ".ipynb") {
+      continue;
+    }
+    if (!linkedFiles(d).some((abs) => from.has(abs))) continue;
+    docs.push(await vscode.workspace.openTextDocument(vscode.Uri.file(d.abs)));
+  }
+  return docs;
+}
+
+// Applies the edits and saves the documents that had no unsaved changes
+// before, so the links on disk match the moved files.
+async function applyAndSave(
+  edit: vscode.WorkspaceEdit,
+  docs: vscode.TextDocument[],
+): Promise<void> {
+  const clean = docs.filter((d) => !d.isDirty);
+  if (!(await vscode.workspace.applyEdit(edit))) {
+    throw new Error("The link update was rejected.");
+  }
+  for (const d of clean) await d.save();
+}
+
+// One renamed or moved document: its images move along (and follow its new
+// name with moveAndRename), and links to them are rewritten in it and in
+// every document linking them.
+async function documentRenamed(
+  oldUri: vscode.Uri,
+  newUri: vscode.Uri,
+  log: (msg: string) => void,
+): Promise<void> {
+  const cfg = vscode.workspace.getConfiguration(undefined, newUri);
+  const mode = cfg.get<RenameMode>("pasteVector.updateLinksOnRename", "move");
+  if (mode === "off") return;
+  const tpl = cfg.get<string>(
+    "pasteVector.destinationTemplate",
+    "img_${documentBaseName}_${unixTime}.${fileExtName}",
+  );
+
+  const doc = await vscode.workspace.openTextDocument(newUri);
+  const moves = await moveAssets(
+    ownedAssetMoves(
+      doc.getText(),
+      oldUri.fsPath,
+      newUri.fsPath,
+      tpl,
+      mode === "moveAndRename",
+    ),
+    log,
+  );
+
+  const edit = new vscode.WorkspaceEdit();
+  addEdits(
+    edit,
+    doc,
+    relinkEdits(doc.getText(), oldUri.fsPath, newUri.fsPath, moves),
+  );
+  const others = moves.length ? await docsLinking(moves, newUri.fsPath) : [];
+  for (const d of others) {
+    addEdits(
+      edit,
+      d,
+      relinkEdits(d.getText(), d.uri.fsPath, d.uri.fsPath, moves),
+    );
+  }
+  if (!edit.size) return;
+  await applyAndSave(edit, [doc, ...others]);
+  log(
+    `rename ${oldUri.fsPath} -> ${newUri.fsPath}: images=${moves.length} documents=${others.length + 1}`,
+  );
+}
+
+// workspace.onDidRenameFiles: handles renamed documents. Folders are skipped;
+// links inside a moved folder stay valid.
+export async function onFilesRenamed(
+  e: vscode.FileRenameEvent,
+  log: (msg: string) => void,
+): Promise<void> {
+  for (const f of e.files) {
+    if (f.newUri.scheme !== "file" || !isLinkingDoc(f.newUri.fsPath)) continue;
+    if (path.extname(f.newUri.fsPath).toLowerCase() === ".ipynb") continue;
+    try {
+      if (!(await fs.stat(f.newUri.fsPath)).isFile()) continue;
+      await documentRenamed(f.oldUri, f.newUri, log);
+    } catch (err: any) {
+      const msg = err?.message ?? String(err);
+      log(`error rename ${f.newUri.fsPath}: ${msg}`);
+      vscode.window.showErrorMessage(
+        `pasteVector: Could not update image links of ${path.basename(f.newUri.fsPath)} — ${msg}`,
+      );
+    }
+  }
+}
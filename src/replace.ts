@@ -0,0 +1,137 @@
+import * as vscode from "vscode";
+import * as path from "path";
+
+import { moveFile, removeIfExists, statSafe } from "./util";
+import { ClipboardPlan } from "./clipboard";
+import { PasteSettings, planClipboardPaste, readPasteSettings } from "./paste";
+import { PasteTarget, pasteTarget, saveExtras, stagingPath } from "./core";
+import { SIDECAR_EXTS, sidecarPath } from "./chem";
+import { removeOriginals } from "./originals";
+import { withExtension } from "./links";
+import { CursorImage, imageLinkUnderCursor } from "./editorImage";
+import { FormatChoices } from "./formatChoices";
+import { CONVERSIONS } from "./queue";
+
+// ── Replacing ─────────────────────────────────────────────────────────────────
+
+// Structure files and the cached original belong to the old image.
+async function removeExtras(imageAbs: string): Promise<void> {
+  for (const ext of SIDECAR_EXTS) {
+    await removeIfExists(sidecarPath(imageAbs, ext));
+  }
+  await removeOriginals(imageAbs);
+}
+
+// Where the image goes when the clipboard converts to another format: next to
+// the old one with the new extension, if the user agrees to change the link.
+// Undefined when cancelled.
+async function confirmNewExtension(
+  image: CursorImage,
+  ext: string,
+): Promise<string | undefined> {
+  const newAbs = withExtension(image.abs, ext);
+  const exists = (await statSafe(newAbs)).exists;
+  const choice = await vscode.window.showWarningMessage(
+    `pasteVector: The clipboard holds a ${ext.toUpperCase()} image, but ${path.basename(image.abs)} is ${path.extname(image.abs).slice(1).toUpperCase() || "not an image file"}. Save it as ${path.basename(newAbs)} and change the link?`,
+    {
+      modal: true,
+      detail:
+        `${path.basename(image.abs)} is kept for other documents linking it.` +
+        (exists ? ` ${path.basename(newAbs)} exists and is overwritten.` : ""),
+    },
+    "Change Link",
+  );
+  return choice ? newAbs : undefined;
+}
+
+// Points the link at the cursor to the new file, unless the document changed
+// under it while the user was asked.
+async function rewriteLinkExtension(
+  editor: vscode.TextEditor,
+  image: CursorImage,
+  ext: string,
+): Promise<boolean> {
+  if (editor.document.getText(image.range) !== image.rel) return false;
+  return editor.edit((eb) =>
+    eb.replace(image.range, withExtension(image.rel, ext)),
+  );
+}
+
+// Converts plan (staged) and moves the result over the linked image, or next
+// to it when the format changed. Returns the file written, or null when the
+// user declined the format change.
+async function replaceWith(
+  editor: vscode.TextEditor,
+  image: CursorImage,
+  plan: ClipboardPlan,
+  s: PasteSettings,
+  log: (msg: string) => void,
+): Promise<string | null> {
+  try {
+    await CONVERSIONS.run(path.basename(image.abs), plan.convert);
+    const ext = path.extname(plan.outAbs).slice(1).toLowerCase();
+    const sameFormat = path.extname(image.abs).slice(1).toLowerCase() === ext;
+    const destAbs = sameFormat
+      ? image.abs
+      : await confirmNewExtension(image, ext);
+    if (!destAbs) return null;
+
+    await moveFile(plan.outAbs, destAbs);
+    await removeExtras(destAbs);
+    await saveExtras(plan, destAbs, s, log);
+    if (!sameFormat && !(await rewriteLinkExtension(editor, image, ext))) {
+      vscode.window.showWarningMessage(
+        `pasteVector: Saved ${path.basename(destAbs)}, but the document changed and the link was not updated.`,
+      );
+    }
+    return destAbs;
+  } finally {
+    await removeIfExists(plan.outAbs);
+    await plan.dispose?.();
+  }
+}
+
+// "Replace Image Under Cursor with Clipboard": pastes the clipboard over the
+// linked image, keeping its file name and link so every document linking it
+// shows the new version.
+export async function replaceImageUnderCursor(
+  log: (msg: string) => void,
+  choices: FormatChoices,
+): Promise<void> {
+  const editor = vscode.window.activeTextEditor;
+  const image = editor && imageLinkUnderCursor(editor);
+  if (!editor || !image) {
+    vscode.window.showInformationMessage(
+      "pasteVector: Place the cursor on an image link to replace.",
+    );
+    return;
+  }
+
+  // Output is staged: its format is only known once the clipboard is read.
+  const s = readPasteSettings(editor.document);
+  const target: PasteTarget = {
+    ...pasteTarget(editor.document.uri.fsPath, s),
+    hashMode: false,
+    makeOutAbs: stagingPath,
+  };
+  const plan = await planClipboardPaste(s, target, log, choices.all());
+  if (!plan) {
+    vscode.window.showInformationMessage(
+      "pasteVector: The clipboard has no image to replace it with.",
+    );
+    return;
+  }
+
+  try {
+    const written = await replaceWith(editor, image, plan, s, log);
+    if (!written) return;
+    log(`replace handler=${plan.handler} type=${plan.usedType} -> ${written}`);
+    vscode.window.showInformationMessage(
+      `pasteVector: Replaced ${path.basename(written)}.`,
+    );
+  } catch (e: any) {
+    const msg = e?.message ?? String(e);
+    log(`error replace ${plan.handler}: ${msg}`);
+    vscode.window.showErrorMessage(`pasteVector: Replace failed — ${msg}`);
+  }
+}
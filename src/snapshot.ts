@@ -0,0 +1,71 @@
+import * as vscode from "vscode";
+import * as path from "path";
+
+import { snapshotClipboard } from "./clipboard";
+import { MANIFEST_FILE } from "./clipboardBackends";
+
+// clipboard-snapshot-20240131-142501
+function snapshotFolderName(d = new Date()): string {
+  const p = (n: number) => String(n).padStart(2, "0");
+  return (
+    `clipboard-snapshot-${d.getFullYear()}${p(d.getMonth() + 1)}${p(d.getDate())}` +
+    `-${p(d.getHours())}${p(d.getMinutes())}${p(d.getSeconds())}`
+  );
+}
+
+// ── Snapshot command ──────────────────────────────────────────────────────────
+
+// "Save Clipboard Snapshot": writes the raw bytes of every type on each
+// clipboard (Wayland, X11, the Windows clipboard under WSL) to a new folder
+// in the chosen one, with a manifest per clipboard. Meant for bug reports;
+// each clipboard's folder can be replayed as a test fixture.
+export async function saveClipboardSnapshot(
+  log: (msg: string) => void,
+): Promise<void> {
+  const picked = await vscode.window.showOpenDialog({
+    title: "pasteVector: Save Clipboard Snapshot",
+    openLabel: "Save Snapshot Here",
+    canSelectFiles: false,
+    canSelectFolders: true,
+    defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+  });
+  if (!picked?.length) return;
+  const dir = path.join(picked[0].fsPath, snapshotFolderName());
+
+  const prefer = vscode.workspace
+    .getConfiguration()
+    .get<"auto" | "wayland" | "x11">("pasteVector.preferBackend", "auto");
+  const manifests = await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: "pasteVector: saving clipboard snapshot",
+    },
+    () => snapshotClipboard(dir, prefer, log),
+  );
+  log(
+    `snapshot dir=${dir} ` +
+      manifests.map((m) => `${m.backend}=${m.types.length}`).join(" "),
+  );
+  if (!manifests.length) {
+    vscode.window.showInformationMessage(
+      "pasteVector: The clipboard is empty; no snapshot was saved.",
+    );
+    return;
+  }
+
+  const n = manifests.reduce((sum, m) => sum + m.types.length, 0);
+  const action = await vscode.window.showInformationMessage(
+    `pasteVector: Saved ${n} clipboard type(s) to ${path.basename(dir)}.`,
+    "Reveal in Explorer",
+    "Open Manifest",
+  );
+  if (action === "Reveal in Explorer") {
+    await vscode.commands.executeCommand(
+      "revealFileInOS",
+      vscode.Uri.file(path.join(dir, manifests[0].backend)),
+    );
+  } else if (action === "Open Manifest") {
+    const manifest = path.join(dir, manifests[0].backend, MANIFEST_FILE);
+    await vscode.window.showTextDocument(vscode.Uri.file(manifest));
+  }
+}
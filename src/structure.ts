@@ -0,0 +1,53 @@
+import * as vscode from "vscode";
+import * as path from "path";
+
+import { statSafe } from "./util";
+import { Sidecar, copyStructureToWindowsClipboard } from "./clipboard";
+import { SIDECAR_EXTS, sidecarPath } from "./chem";
+import { commandImage } from "./editorImage";
+
+// ── Copy structure back ───────────────────────────────────────────────────────
+
+async function sidecarsOf(imageAbs: string): Promise<Sidecar[]> {
+  const found: Sidecar[] = [];
+  for (const ext of SIDECAR_EXTS) {
+    const abs = sidecarPath(imageAbs, ext);
+    if ((await statSafe(abs)).exists) found.push({ ext, abs });
+  }
+  return found;
+}
+
+// "Copy Original Structure Back to Clipboard": puts the CDX/CDXML/MOL/SMILES
+// saved next to an image back on the clipboard, so the drawing can be pasted
+// into ChemDraw and edited again.
+export async function copyStructureBack(
+  log: (msg: string) => void,
+  uri?: vscode.Uri,
+): Promise<void> {
+  const imageAbs = commandImage(uri);
+  if (!imageAbs) {
+    vscode.window.showInformationMessage(
+      "pasteVector: Place the cursor on an image link, or run this from the Explorer on an image.",
+    );
+    return;
+  }
+  const sidecars = await sidecarsOf(imageAbs);
+  if (!sidecars.length) {
+    vscode.window.showInformationMessage(
+      `pasteVector: No saved structure next to ${path.basename(imageAbs)}.`,
+    );
+    return;
+  }
+  try {
+    await copyStructureToWindowsClipboard(sidecars);
+    const kinds = sidecars.map((c) => c.ext.toUpperCase()).join(", ");
+    log(`structure -> clipboard ${imageAbs} (${kinds})`);
+    vscode.window.showInformationMessage(
+      `pasteVector: Copied the structure of ${path.basename(imageAbs)} (${kinds}).`,
+    );
+  } catch (e: any) {
+    const msg = e?.message ?? String(e);
+    log(`error structure copy: ${msg}`);
+    vscode.window.showErrorMessage(`pasteVector: ${msg}`);
+  }
+}
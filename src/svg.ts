@@ -5,12 +5,21 @@ import * as path from "path";
 import {
   T_CONVERT_MS,
   commandExists,
+  copyFileAtomic,
   nonce,
   removeIfExists,
   runText,
   statSafe,
   writeBytes,
+  writeFileAtomic,
 } from "./util";
+import { UnsupportedSvgError, fitSvgTextToDrawing } from "./svgbbox";
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+// builtin: fit in-process, falling back to Inkscape for unsupported content.
+// inkscape: use Inkscape, falling back to builtin when it is not in PATH.
+export type FitEngine = "builtin" | "inkscape";
 
 // ── Root dimension scaler ─────────────────────────────────────────────────────
 
@@ -48,7 +57,7 @@ export async function scaleSvgRootDimensions(
     );
   }
 
-  await fs.writeFile(svgPath, svg, "utf8");
+  await writeFileAtomic(svgPath, svg);
 }
 
 // ── Inkscape helpers ──────────────────────────────────────────────────────────
@@ -84,7 +93,7 @@ export async function finalizeEmfWithInkscape(
     const r = await runText("inkscape", args, T_CONVERT_MS);
     const st = await statSafe(tmpOut);
     if (st.exists && st.size > 0) {
-      await fs.copyFile(tmpOut, svgPath);
+      await copyFileAtomic(tmpOut, svgPath);
       if (log && r.stderr?.trim())
         log(`inkscape fit stderr: ${r.stderr.trim()}`);
     } else {
@@ -162,7 +171,7 @@ export async function finalizeSvgWithInkscape(inSvgAbs: string): Promise<void> {
     await removeIfExists(tmpOut);
     const { r, ok } = await tryCommand(args);
     if (ok) {
-      await fs.copyFile(tmpOut, inSvgAbs);
+      await copyFileAtomic(tmpOut, inSvgAbs);
       await removeIfExists(tmpOut);
       return;
     }
@@ -172,6 +181,98 @@ export async function finalizeSvgWithInkscape(inSvgAbs: string): Promise<void> {
   throw new Error(`Inkscape finalization failed.\n${lastErr}`.trim());
 }
 
+// Converts a format Inkscape can import (WMF, PDF) to plain SVG with the page
+// cropped to the drawing. PDFs contribute their first page.
+export async function importWithInkscape(
+  inAbs: string,
+  outSvgAbs: string,
+): Promise<void> {
+  const ext = path.extname(inAbs).toLowerCase();
+  if (!commandExists("inkscape"))
+    throw new Error(`Inkscape is required to convert ${ext} files.`);
+
+  const tmpOut = path.join(os.tmpdir(), `pastevector_${nonce()}.import.svg`);
+  const args = [
+    inAbs,
+    ...(ext === ".pdf" ? ["--pdf-page=1"] : []),
+    `--export-filename=${tmpOut}`,
+    "--export-type=svg",
+    "--export-plain-svg",
+    "--export-area-drawing",
+  ];
+
+  try {
+    const r = await runText("inkscape", args, T_CONVERT_MS);
+    const st = await statSafe(tmpOut);
+    if (!st.exists || st.size === 0) {
+      const detail = [r.stderr?.trim(), r.stdout?.trim()]
+        .filter(Boolean)
+        .join("\n");
+      throw new Error(`Inkscape import of ${ext} failed.\n${detail}`.trim());
+    }
+    await copyFileAtomic(tmpOut, outSvgAbs);
+  } finally {
+    await removeIfExists(tmpOut);
+  }
+}
+
+// ── Canvas fitting ────────────────────────────────────────────────────────────
+
+// Fits the canvas in-process. Returns false (file untouched) when the drawing is
+// empty or contains content the builtin fitter cannot measure.
+export async function fitSvgWithBuiltin(
+  svgPath: string,
+  log?: (msg: string) => void,
+): Promise<boolean> {
+  try {
+    const svg = await fs.readFile(svgPath, "utf8");
+    const fitted = fitSvgTextToDrawing(svg);
+    if (fitted === null) {
+      if (log) log("warn fitSvgWithBuiltin: empty drawing, skipping");
+      return false;
+    }
+    await writeFileAtomic(svgPath, fitted);
+    return true;
+  } catch (e: any) {
+    if (!(e instanceof UnsupportedSvgError)) throw e;
+    if (log) log(`warn fitSvgWithBuiltin: ${e.message}`);
+    return false;
+  }
+}
+
+// Fits a pasted SVG. Inkscape is only required when the builtin fitter gives up
+// and Inkscape is in PATH; otherwise the canvas is left unchanged.
+export async function fitSvgCanvas(
+  svgPath: string,
+  engine: FitEngine,
+  log?: (msg: string) => void,
+): Promise<void> {
+  const hasInkscape = commandExists("inkscape");
+  if (engine === "builtin" || !hasInkscape) {
+    if (await fitSvgWithBuiltin(svgPath, log)) return;
+    if (!hasInkscape) {
+      if (log) log("warn fitSvgCanvas: inkscape not in PATH, canvas unchanged");
+      return;
+    }
+  }
+  await finalizeSvgWithInkscape(svgPath);
+}
+
+// Same as fitSvgCanvas for emf2svg-conv output; an Inkscape failure here is
+// logged, not thrown.
+export async function fitEmfSvgCanvas(
+  svgPath: string,
+  engine: FitEngine,
+  log?: (msg: string) => void,
+): Promise<void> {
+  if (engine === "inkscape" && commandExists("inkscape")) {
+    await finalizeEmfWithInkscape(svgPath, log);
+    return;
+  }
+  if (await fitSvgWithBuiltin(svgPath, log)) return;
+  await finalizeEmfWithInkscape(svgPath, log);
+}
+
 // ── SVG text helpers ──────────────────────────────────────────────────────────
 
 export function looksLikeSvgText(s: string): boolean {
@@ -0,0 +1,914 @@
+// In-process replacement for Inkscape's fit-canvas-to-selection. Computes the
+// visual bounding box of an SVG drawing (geometry, transforms, stroke widths and
+// an estimate for text) and rewrites the root viewBox/width/height around it.
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+type SvgNode = {
+  name: string;
+  attrs: Record<string, string>;
+  children: SvgChild[];
+};
+type SvgChild = SvgNode | string;
+
+// Affine matrix [a, b, c, d, e, f] as in the SVG transform="matrix(...)" form.
+type Matrix = [number, number, number, number, number, number];
+
+type Style = {
+  stroke: boolean;
+  strokeWidth: number;
+  fontSize: number;
+  textAnchor: string;
+  visible: boolean;
+};
+
+export type Box = { x: number; y: number; width: number; height: number };
+
+// Thrown for content the builtin fitter cannot measure reliably; callers fall
+// back to Inkscape.
+export class UnsupportedSvgError extends Error {}
+
+// ── Constants ─────────────────────────────────────────────────────────────────
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+// Elements whose children are never rendered directly.
+const NON_RENDERED = new Set([
+  "defs",
+  "clipPath",
+  "mask",
+  "symbol",
+  "marker",
+  "pattern",
+  "linearGradient",
+  "radialGradient",
+  "filter",
+  "title",
+  "desc",
+  "metadata",
+  "style",
+  "script",
+]);
+
+// CSS px per unit.
+const UNIT_PX: Record<string, number> = {
+  "": 1,
+  px: 1,
+  pt: 4 / 3,
+  pc: 16,
+  mm: 96 / 25.4,
+  cm: 96 / 2.54,
+  in: 96,
+};
+
+// Average glyph advance and ascent/descent as a fraction of font-size. Without
+// font metrics this is an estimate; it errs on the wide side.
+const GLYPH_ADVANCE = 0.6;
+const GLYPH_ASCENT = 0.8;
+const GLYPH_DESCENT = 0.25;
+
+// Circle/ellipse quadrant as a cubic Bézier.
+const KAPPA = 0.5522847498;
+
+// ── XML parsing ───────────────────────────────────────────────────────────────
+
+function decodeEntities(s: string): string {
+  return s.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_, e) => {
+    const k = e.toLowerCase();
+    if (k === "amp") return "&";
+    if (k === "lt") return "<";
+    if (k === "gt") return ">";
+    if (k === "quot") return '"';
+    if (k === "apos") return "'";
+    const code = k.startsWith("#x") ? parseInt(k.slice(2), 16) : +k.slice(1);
+    return String.fromCodePoint(code);
+  });
+}
+
+function localName(name: string): string {
+  const i = name.indexOf(":");
+  return i < 0 ? name : name.slice(i + 1);
+}
+
+function parseXml(xml: string): SvgNode | null {
+  const tokenRe =
+    /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<![^>]*>|<\?[\s\S]*?\?>|<(\/?)([^\s/>]+)((?:"[^"]*"|'[^']*'|[^'">])*?)(\/?)>|([^<]+)/g;
+  const attrRe = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  const root: SvgNode = { name: "#document", attrs: {}, children: [] };
+  const stack: SvgNode[] = [root];
+  let m: RegExpExecArray | null;
+  while ((m = tokenRe.exec(xml))) {
+    const top = stack[stack.length - 1];
+    if (m[1] !== undefined) {
+      top.children.push(m[1]);
+    } else if (m[3] !== undefined) {
+      if (m[2]) {
+        if (stack.length > 1) stack.pop();
+        continue;
+      }
+      const node: SvgNode = { name: m[3], attrs: {}, children: [] };
+      let a: RegExpExecArray | null;
+      attrRe.lastIndex = 0;
+      while ((a = attrRe.exec(m[4]))) {
+        node.attrs[a[1]] = decodeEntities(a[2] ?? a[3] ?? "");
+      }
+      top.children.push(node);
+      if (!m[5]) stack.push(node);
+    } else if (m[6] !== undefined) {
+      top.children.push(decodeEntities(m[6]));
+    }
+  }
+  for (const c of root.children) {
+    if (typeof c !== "string" && localName(c.name) === "svg") return c;
+  }
+  return null;
+}
+
+// ── Attribute helpers ─────────────────────────────────────────────────────────
+
+function parseStyleAttr(s: string | undefined): Record<string, string> {
+  const out: Record<string, string> = {};
+  if (!s) return out;
+  for (const decl of s.split(";")) {
+    const i = decl.indexOf(":");
+    if (i < 0) continue;
+    out[decl.slice(0, i).trim()] = decl
+      .slice(i + 1)
+      .replace(/!important/i, "")
+      .trim();
+  }
+  return out;
+}
+
+function prop(node: SvgNode, name: string): string | undefined {
+  return parseStyleAttr(node.attrs.style)[name] ?? node.attrs[name];
+}
+
+// Parses an SVG length in user units (px). Percentages return null.
+export function parseLength(
+  s: string | undefined,
+  fontSize = 16,
+): number | null {
+  if (s === undefined) return null;
+  const m = s
+    .trim()
+    .match(/^([-+]?(?:\d*\.\d+|\d+\.?\d*)(?:e[-+]?\d+)?)([a-z%]*)$/i);
+  if (!m) return null;
+  const v = parseFloat(m[1]);
+  const unit = m[2].toLowerCase();
+  if (unit === "em") return v * fontSize;
+  if (unit === "ex") return (v * fontSize) / 2;
+  const k = UNIT_PX[unit];
+  return k === undefined ? null : v * k;
+}
+
+function num(node: SvgNode, name: string, fontSize: number, def = 0): number {
+  return parseLength(node.attrs[name], fontSize) ?? def;
+}
+
+function numberList(s: string | undefined): number[] {
+  if (!s) return [];
+  return (s.match(/[-+]?(?:\d*\.\d+|\d+\.?\d*)(?:[eE][-+]?\d+)?/g) ?? []).map(
+    Number,
+  );
+}
+
+// ── Matrices ──────────────────────────────────────────────────────────────────
+
+function multiply(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[2] * n[1],
+    m[1] * n[0] + m[3] * n[1],
+    m[0] * n[2] + m[2] * n[3],
+    m[1] * n[2] + m[3] * n[3],
+    m[0] * n[4] + m[2] * n[5] + m[4],
+    m[1] * n[4] + m[3] * n[5] + m[5],
+  ];
+}
+
+function apply(m: Matrix, x: number, y: number): [number, number] {
+  return [m[0] * x + m[2] * y + m[4], m[1] * x + m[3] * y + m[5]];
+}
+
+function parseTransform(s: string | undefined): Matrix {
+  let m: Matrix = IDENTITY;
+  if (!s) return m;
+  const re = /(matrix|translate|scale|rotate|skewX|skewY)\s*\(([^)]*)\)/g;
+  let t: RegExpExecArray | null;
+  while ((t = re.exec(s))) {
+    const v = numberList(t[2]);
+    let n: Matrix = IDENTITY;
+    switch (t[1]) {
+      case "matrix":
+        if (v.length >= 6) n = [v[0], v[1], v[2], v[3], v[4], v[5]];
+        break;
+      case "translate":
+        n = [1, 0, 0, 1, v[0] ?? 0, v[1] ?? 0];
+        break;
+      case "scale":
+        n = [v[0] ?? 1, 0, 0, v[1] ?? v[0] ?? 1, 0, 0];
+        break;
+      case "rotate": {
+        const a = ((v[0] ?? 0) * Math.PI) / 180;
+        const cos = Math.cos(a);
+        const sin = Math.sin(a);
+        n = [cos, sin, -sin, cos, 0, 0];
+        if (v.length >= 3) {
+          n = multiply(multiply([1, 0, 0, 1, v[1], v[2]], n), [
+            1,
+            0,
+            0,
+            1,
+            -v[1],
+            -v[2],
+          ]);
+        }
+        break;
+      }
+      case "skewX":
+        n = [1, 0, Math.tan(((v[0] ?? 0) * Math.PI) / 180), 1, 0, 0];
+        break;
+      case "skewY":
+        n = [1, Math.tan(((v[0] ?? 0) * Math.PI) / 180), 0, 1, 0, 0];
+        break;
+    }
+    m = multiply(m, n);
+  }
+  return m;
+}
+
+// ── Bounds accumulator ────────────────────────────────────────────────────────
+
+class Bounds {
+  minX = Infinity;
+  minY = Infinity;
+  maxX = -Infinity;
+  maxY = -Infinity;
+
+  get empty(): boolean {
+    return this.minX > this.maxX || this.minY > this.maxY;
+  }
+
+  add(x: number, y: number): void {
+    if (!isFinite(x) || !isFinite(y)) return;
+    if (x < this.minX) this.minX = x;
+    if (y < this.minY) this.minY = y;
+    if (x > this.maxX) this.maxX = x;
+    if (y > this.maxY) this.maxY = y;
+  }
+
+  merge(o: Bounds, pad = 0): void {
+    if (o.empty) return;
+    this.add(o.minX - pad, o.minY - pad);
+    this.add(o.maxX + pad, o.maxY + pad);
+  }
+}
+
+// Accumulates path segments in local coordinates into device-space bounds.
+// Béziers are transformed first and measured exactly (affine maps preserve
+// control-point form), so rotated curves still get tight extrema.
+class Shape {
+  readonly bounds = new Bounds();
+  private x = 0;
+  private y = 0;
+
+  constructor(private m: Matrix) {}
+
+  moveTo(x: number, y: number): void {
+    this.x = x;
+    this.y = y;
+    this.bounds.add(...apply(this.m, x, y));
+  }
+
+  lineTo(x: number, y: number): void {
+    this.moveTo(x, y);
+  }
+
+  cubicTo(
+    x1: number,
+    y1: number,
+    x2: number,
+    y2: number,
+    x: number,
+    y: number,
+  ): void {
+    const p0 = apply(this.m, this.x, this.y);
+    const p1 = apply(this.m, x1, y1);
+    const p2 = apply(this.m, x2, y2);
+    const p3 = apply(this.m, x, y);
+    for (const t of [
+      ...cubicExtrema(p0[0], p1[0], p2[0], p3[0]),
+      ...cubicExtrema(p0[1], p1[1], p2[1], p3[1]),
+    ]) {
+      this.bounds.add(
+        cubicAt(p0[0], p1[0], p2[0], p3[0], t),
+        cubicAt(p0[1], p1[1], p2[1], p3[1], t),
+      );
+    }
+    this.moveTo(x, y);
+  }
+
+  quadTo(x1: number, y1: number, x: number, y: number): void {
+    this.cubicTo(
+      this.x + (2 / 3) * (x1 - this.x),
+      this.y + (2 / 3) * (y1 - this.y),
+      x + (2 / 3) * (x1 - x),
+      y + (2 / 3) * (y1 - y),
+      x,
+      y,
+    );
+  }
+
+  // Endpoint-parameterised elliptical arc (SVG spec F.6.5), sampled.
+  arcTo(
+    rx: number,
+    ry: number,
+    phiDeg: number,
+    largeArc: boolean,
+    sweep: boolean,
+    x: number,
+    y: number,
+  ): void {
+    const x0 = this.x;
+    const y0 = this.y;
+    rx = Math.abs(rx);
+    ry = Math.abs(ry);
+    if (rx === 0 || ry === 0 || (x0 === x && y0 === y)) {
+      this.lineTo(x, y);
+      return;
+    }
+    const phi = (phiDeg * Math.PI) / 180;
+    const cos = Math.cos(phi);
+    const sin = Math.sin(phi);
+    const dx = (x0 - x) / 2;
+    const dy = (y0 - y) / 2;
+    const x1p = cos * dx + sin * dy;
+    const y1p = -sin * dx + cos * dy;
+    const lambda = (x1p * x1p) / (rx * rx) + (y1p * y1p) / (ry * ry);
+    if (lambda > 1) {
+      rx *= Math.sqrt(lambda);
+      ry *= Math.sqrt(lambda);
+    }
+    const num = rx * rx * ry * ry - rx * rx * y1p * y1p - ry * ry * x1p * x1p;
+    const den = rx * rx * y1p * y1p + ry * ry * x1p * x1p;
+    let coef = Math.sqrt(Math.max(0, num / den));
+    if (largeArc === sweep) coef = -coef;
+    const cxp = (coef * rx * y1p) / ry;
+    const cyp = (-coef * ry * x1p) / rx;
+    const cx = cos * cxp - sin * cyp + (x0 + x) / 2;
+    const cy = sin * cxp + cos * cyp + (y0 + y) / 2;
+    const angle = (ux: number, uy: number, vx: number, vy: number) =>
+      Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+    const theta1 = angle(1, 0, (x1p - cxp) / rx, (y1p - cyp) / ry);
+    let delta = angle(
+      (x1p - cxp) / rx,
+      (y1p - cyp) / ry,
+      (-x1p - cxp) / rx,
+      (-y1p - cyp) / ry,
+    );
+    if (!sweep && delta > 0) delta -= 2 * Math.PI;
+    if (sweep && delta < 0) delta += 2 * Math.PI;
+    const steps = Math.max(8, Math.ceil((Math.abs(delta) / Math.PI) * 32));
+    for (let i = 1; i <= steps; i++) {
+      const t = theta1 + (delta * i) / steps;
+      const ex = rx * Math.cos(t);
+      const ey = ry * Math.sin(t);
+      this.lineTo(cos * ex - sin * ey + cx, sin * ex + cos * ey + cy);
+    }
+    this.x = x;
+    this.y = y;
+  }
+}
+
+function cubicAt(a: number, b: number, c: number, d: number, t: number) {
+  const mt = 1 - t;
+  return (
+    mt * mt * mt * a + 3 * mt * mt * t * b + 3 * mt * t * t * c + t * t * t * d
+  );
+}
+
+// Parameters in (0, 1) where the derivative of a 1-D cubic Bézier vanishes.
+function cubicExtrema(a: number, b: number, c: number, d: number): number[] {
+  const qa = -a + 3 * b - 3 * c + d;
+  const qb = 2 * (a - 2 * b + c);
+  const qc = b - a;
+  const out: number[] = [];
+  if (Math.abs(qa) < 1e-12) {
+    if (Math.abs(qb) > 1e-12) out.push(-qc / qb);
+  } else {
+    const disc = qb * qb - 4 * qa * qc;
+    if (disc >= 0) {
+      const s = Math.sqrt(disc);
+      out.push((-qb + s) / (2 * qa), (-qb - s) / (2 * qa));
+    }
+  }
+  return out.filter((t) => t > 0 && t < 1);
+}
+
+// ── Path data ─────────────────────────────────────────────────────────────────
+
+function tracePath(d: string, shape: Shape): void {
+  const numRe = /[\s,]*([-+]?(?:\d*\.\d+|\d+\.?\d*)(?:[eE][-+]?\d+)?)/y;
+  const flagRe = /[\s,]*([01])/y;
+  const cmdRe = /[\s,]*([MmLlHhVvCcSsQqTtAaZz])/y;
+  let i = 0;
+  const read = (re: RegExp): string | null => {
+    re.lastIndex = i;
+    const m = re.exec(d);
+    if (!m) return null;
+    i = re.lastIndex;
+    return m[1];
+  };
+  const n = (): number => {
+    const v = read(numRe);
+    if (v === null) throw new UnsupportedSvgError(`bad path data at ${i}`);
+    return parseFloat(v);
+  };
+  const flag = (): boolean => {
+    const v = read(flagRe);
+    if (v === null) throw new UnsupportedSvgError(`bad arc flag at ${i}`);
+    return v === "1";
+  };
+  const hasNum = (): boolean => {
+    numRe.lastIndex = i;
+    return numRe.test(d);
+  };
+
+  let cx = 0;
+  let cy = 0;
+  let sx = 0;
+  let sy = 0;
+  // Reflection control point for S/T.
+  let rx = 0;
+  let ry = 0;
+  let prev = "";
+  let cmd: string | null;
+  while ((cmd = read(cmdRe))) {
+    const rel = cmd === cmd.toLowerCase();
+    const C = cmd.toUpperCase();
+    if (C === "Z") {
+      shape.lineTo(sx, sy);
+      cx = sx;
+      cy = sy;
+      prev = C;
+      continue;
+    }
+    let first = true;
+    do {
+      const ox = rel ? cx : 0;
+      const oy = rel ? cy : 0;
+      switch (C) {
+        case "M":
+          cx = ox + n();
+          cy = oy + n();
+          if (first) {
+            shape.moveTo(cx, cy);
+            sx = cx;
+            sy = cy;
+          } else shape.lineTo(cx, cy);
+          break;
+        case "L":
+          cx = ox + n();
+          cy = oy + n();
+          shape.lineTo(cx, cy);
+          break;
+        case "H":
+          cx = ox + n();
+          shape.lineTo(cx, cy);
+          break;
+        case "V":
+          cy = oy + n();
+          shape.lineTo(cx, cy);
+          break;
+        case "C": {
+          const x1 = ox + n();
+          const y1 = oy + n();
+          const x2 = ox + n();
+          const y2 = oy + n();
+          cx = ox + n();
+          cy = oy + n();
+          shape.cubicTo(x1, y1, x2, y2, cx, cy);
+          rx = x2;
+          ry = y2;
+          break;
+        }
+        case "S": {
+          const x1 = prev === "C" || prev === "S" ? 2 * cx - rx : cx;
+          const y1 = prev === "C" || prev === "S" ? 2 * cy - ry : cy;
+          const x2 = ox + n();
+          const y2 = oy + n();
+          cx = ox + n();
+          cy = oy + n();
+          shape.cubicTo(x1, y1, x2, y2, cx, cy);
+          rx = x2;
+          ry = y2;
+          break;
+        }
+        case "Q": {
+          const x1 = ox + n();
+          const y1 = oy + n();
+          cx = ox + n();
+          cy = oy + n();
+          shape.quadTo(x1, y1, cx, cy);
+          rx = x1;
+          ry = y1;
+          break;
+        }
+        case "T": {
+          const x1 = prev === "Q" || prev === "T" ? 2 * cx - rx : cx;
+          const y1 = prev === "Q" || prev === "T" ? 2 * cy - ry : cy;
+          cx = ox + n();
+          cy = oy + n();
+          shape.quadTo(x1, y1, cx, cy);
+          rx = x1;
+          ry = y1;
+          break;
+        }
+        case "A": {
+          const arx = n();
+          const ary = n();
+          const rot = n();
+          const large = flag();
+          const sweep = flag();
+          cx = ox + n();
+          cy = oy + n();
+          shape.arcTo(arx, ary, rot, large, sweep, cx, cy);
+          break;
+        }
+      }
+      prev = C;
+      first = false;
+    } while (hasNum());
+  }
+}
+
+function traceEllipse(
+  shape: Shape,
+  cx: number,
+  cy: number,
+  rx: number,
+  ry: number,
+): void {
+  const kx = rx * KAPPA;
+  const ky = ry * KAPPA;
+  shape.moveTo(cx + rx, cy);
+  shape.cubicTo(cx + rx, cy + ky, cx + kx, cy + ry, cx, cy + ry);
+  shape.cubicTo(cx - kx, cy + ry, cx - rx, cy + ky, cx - rx, cy);
+  shape.cubicTo(cx - rx, cy - ky, cx - kx, cy - ry, cx, cy - ry);
+  shape.cubicTo(cx + kx, cy - ry, cx + rx, cy - ky, cx + rx, cy);
+}
+
+function traceRect(
+  shape: Shape,
+  x: number,
+  y: number,
+  w: number,
+  h: number,
+): void {
+  if (w <= 0 || h <= 0) return;
+  shape.moveTo(x, y);
+  shape.lineTo(x + w, y);
+  shape.lineTo(x + w, y + h);
+  shape.lineTo(x, y + h);
+}
+
+// ── Tree walk ─────────────────────────────────────────────────────────────────
+
+function inheritStyle(node: SvgNode, parent: Style): Style {
+  const stroke = prop(node, "stroke");
+  const fontSize =
+    parseLength(prop(node, "font-size"), parent.fontSize) ?? parent.fontSize;
+  const visibility = prop(node, "visibility");
+  return {
+    stroke: stroke === undefined ? parent.stroke : stroke !== "none",
+    strokeWidth:
+      parseLength(prop(node, "stroke-width"), fontSize) ?? parent.strokeWidth,
+    fontSize,
+    textAnchor: prop(node, "text-anchor") ?? parent.textAnchor,
+    visible:
+      visibility === undefined
+        ? parent.visible
+        : visibility !== "hidden" && visibility !== "collapse",
+  };
+}
+
+function collectIds(node: SvgNode, ids: Map<string, SvgNode>): void {
+  if (node.attrs.id) ids.set(node.attrs.id, node);
+  for (const c of node.children) if (typeof c !== "string") collectIds(c, ids);
+}
+
+function textContent(node: SvgNode): string {
+  return node.children
+    .map((c) => (typeof c === "string" ? c : textContent(c)))
+    .join("");
+}
+
+class BoxWalker {
+  readonly bounds = new Bounds();
+  private depth = 0;
+
+  constructor(private ids: Map<string, SvgNode>) {}
+
+  walkChildren(node: SvgNode, m: Matrix, style: Style): void {
+    for (const c of node.children) {
+      if (typeof c !== "string") this.walk(c, m, style);
+    }
+  }
+
+  walk(node: SvgNode, parentM: Matrix, parentStyle: Style): void {
+    const name = localName(node.name);
+    if (node.name.includes(":") && !node.name.startsWith("svg:")) return;
+    if (NON_RENDERED.has(name)) return;
+    if (prop(node, "display") === "none") return;
+
+    const style = inheritStyle(node, parentStyle);
+    const m = multiply(parentM, parseTransform(node.attrs.transform));
+    const fs = style.fontSize;
+
+    switch (name) {
+      case "g":
+      case "a":
+      case "switch":
+        this.walkChildren(node, m, style);
+        return;
+      case "svg": {
+        if (node.attrs.viewBox)
+          throw new UnsupportedSvgError("nested <svg> with viewBox");
+        const t = multiply(m, [
+          1,
+          0,
+          0,
+          1,
+          num(node, "x", fs),
+          num(node, "y", fs),
+        ]);
+        this.walkChildren(node, t, style);
+        return;
+      }
+      case "use": {
+        const href = node.attrs.href ?? node.attrs["xlink:href"] ?? "";
+        const ref = href.startsWith("#") ? this.ids.get(href.slice(1)) : null;
+        if (!ref) return;
+        if (++this.depth > 32)
+          throw new UnsupportedSvgError("<use> nesting too deep");
+        const t = multiply(m, [
+          1,
+          0,
+          0,
+          1,
+          num(node, "x", fs),
+          num(node, "y", fs),
+        ]);
+        if (localName(ref.name) === "symbol") {
+          if (ref.attrs.viewBox)
+            throw new UnsupportedSvgError("<symbol> with viewBox");
+          this.walkChildren(ref, t, inheritStyle(ref, style));
+        } else {
+          this.walk(ref, t, style);
+        }
+        this.depth--;
+        return;
+      }
+      case "text":
+        if (style.visible) this.text(node, m, style);
+        return;
+    }
+
+    if (!style.visible) return;
+    const shape = new Shape(m);
+    let stroked = style.stroke;
+    switch (name) {
+      case "path":
+        tracePath(node.attrs.d ?? "", shape);
+        break;
+      case "rect":
+        traceRect(
+          shape,
+          num(node, "x", fs),
+          num(node, "y", fs),
+          num(node, "width", fs),
+          num(node, "height", fs),
+        );
+        break;
+      case "image":
+      case "foreignObject":
+        stroked = false;
+        traceRect(
+          shape,
+          num(node, "x", fs),
+          num(node, "y", fs),
+          num(node, "width", fs),
+          num(node, "height", fs),
+        );
+        break;
+      case "circle": {
+        const r = num(node, "r", fs);
+        if (r > 0)
+          traceEllipse(shape, num(node, "cx", fs), num(node, "cy", fs), r, r);
+        break;
+      }
+      case "ellipse": {
+        const rx = num(node, "rx", fs);
+        const ry = num(node, "ry", fs);
+        if (rx > 0 && ry > 0)
+          traceEllipse(shape, num(node, "cx", fs), num(node, "cy", fs), rx, ry);
+        break;
+      }
+      case "line":
+        shape.moveTo(num(node, "x1", fs), num(node, "y1", fs));
+        shape.lineTo(num(node, "x2", fs), num(node, "y2", fs));
+        break;
+      case "polyline":
+      case "polygon": {
+        const p = numberList(node.attrs.points);
+        for (let k = 0; k + 1 < p.length; k += 2) {
+          if (k === 0) shape.moveTo(p[k], p[k + 1]);
+          else shape.lineTo(p[k], p[k + 1]);
+        }
+        break;
+      }
+      default:
+        return;
+    }
+    this.addShape(shape, m, stroked ? style.strokeWidth : 0);
+  }
+
+  private addShape(shape: Shape, m: Matrix, strokeWidth: number): void {
+    const scale = Math.sqrt(Math.abs(m[0] * m[3] - m[1] * m[2]));
+    this.bounds.merge(shape.bounds, (strokeWidth / 2) * scale);
+  }
+
+  // Text runs are laid out left to right from the current position; <tspan>
+  // x/y restart the position. Glyph boxes use GLYPH_* estimates unless a plain
+  // <text> states its advance with textLength.
+  private text(node: SvgNode, m: Matrix, style: Style): void {
+    const pos = {
+      x: numberList(node.attrs.x)[0] ?? 0,
+      y: numberList(node.attrs.y)[0] ?? 0,
+    };
+    const textLength = node.children.every((c) => typeof c === "string")
+      ? parseLength(node.attrs.textLength, style.fontSize)
+      : null;
+    const run = (s: string, st: Style) => {
+      const chars = s.replace(/\s+/g, " ").length;
+      if (!chars || !s.trim()) {
+        pos.x += chars * st.fontSize * GLYPH_ADVANCE * 0.5;
+        return;
+      }
+      const w = textLength ?? chars * st.fontSize * GLYPH_ADVANCE;
+      const x0 =
+        st.textAnchor === "middle"
+          ? pos.x - w / 2
+          : st.textAnchor === "end"
+            ? pos.x - w
+            : pos.x;
+      const shape = new Shape(m);
+      traceRect(
+        shape,
+        x0,
+        pos.y - st.fontSize * GLYPH_ASCENT,
+        w,
+        st.fontSize * (GLYPH_ASCENT + GLYPH_DESCENT),
+      );
+      this.addShape(shape, m, 0);
+      pos.x = x0 + w;
+    };
+    const visit = (n: SvgNode, st: Style) => {
+      for (const c of n.children) {
+        if (typeof c === "string") {
+          run(c, st);
+          continue;
+        }
+        const cn = localName(c.name);
+        if (cn !== "tspan" && cn !== "textPath" && cn !== "a") continue;
+        if (prop(c, "display") === "none") continue;
+        const cst = inheritStyle(c, st);
+        const xs = numberList(c.attrs.x);
+        const ys = numberList(c.attrs.y);
+        if (xs.length) pos.x = xs[0];
+        if (ys.length) pos.y = ys[0];
+        pos.x += numberList(c.attrs.dx)[0] ?? 0;
+        pos.y += numberList(c.attrs.dy)[0] ?? 0;
+        if (cst.visible) visit(c, cst);
+        else pos.x += textContent(c).length * cst.fontSize * GLYPH_ADVANCE;
+      }
+    };
+    visit(node, style);
+  }
+}
+
+// ── Public API ────────────────────────────────────────────────────────────────
+
+// Visual bounding box of the drawing, in root user units (before the root
+// viewBox mapping). Returns null for an empty drawing. Throws
+// UnsupportedSvgError for content it cannot measure.
+export function computeSvgDrawingBox(svgText: string): Box | null {
+  const root = parseXml(svgText);
+  if (!root) throw new UnsupportedSvgError("no <svg> root element");
+  const ids = new Map<string, SvgNode>();
+  collectIds(root, ids);
+  const walker = new BoxWalker(ids);
+  const style = inheritStyle(root, {
+    stroke: false,
+    strokeWidth: 1,
+    fontSize: 16,
+    textAnchor: "start",
+    visible: true,
+  });
+  walker.walkChildren(root, IDENTITY, style);
+  const b = walker.bounds;
+  if (b.empty) return null;
+  return {
+    x: b.minX,
+    y: b.minY,
+    width: b.maxX - b.minX,
+    height: b.maxY - b.minY,
+  };
+}
+
+// Rendered size of the root <svg> in CSS px: its width/height, or the viewBox
+// size when they are missing (or percentages). Null when neither is usable.
+export function svgRootSize(
+  svgText: string,
+): { widthPx: number; heightPx: number } | null {
+  const tag = svgText.match(/<(?:svg:)?svg\b(?:"[^"]*"|'[^']*'|[^'">])*>/);
+  if (!tag) return null;
+  const attr = (name: string) =>
+    tag[0]
+      .match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`))
+      ?.slice(1)
+      .find((v) => v !== undefined);
+  const vb = numberList(attr("viewBox"));
+  let w = parseLength(attr("width"));
+  let h = parseLength(attr("height"));
+  if (vb.length === 4 && vb[2] > 0 && vb[3] > 0) {
+    if (w === null && h !== null) w = (h * vb[2]) / vb[3];
+    if (h === null && w !== null) h = (w * vb[3]) / vb[2];
+    w ??= vb[2];
+    h ??= vb[3];
+  }
+  return w && h && w > 0 && h > 0 ? { widthPx: w, heightPx: h } : null;
+}
+
+function fmt(v: number): string {
+  return String(Number(v.toFixed(4)));
+}
+
+// Rewrites the root <svg> so its canvas matches the drawing's bounding box,
+// keeping the current user-unit → physical-unit ratio. Returns null when the
+// drawing is empty.
+export function fitSvgTextToDrawing(svgText: string): string | null {
+  const box = computeSvgDrawingBox(svgText);
+  if (!box || box.width <= 0 || box.height <= 0) return null;
+
+  const tag = svgText.match(/<(?:svg:)?svg\b(?:"[^"]*"|'[^']*'|[^'">])*>/);
+  if (!tag || tag.index === undefined) return null;
+  const attrs: Record<string, string> = {};
+  const attrRe = /\s([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  let a: RegExpExecArray | null;
+  while ((a = attrRe.exec(tag[0]))) attrs[a[1]] = a[2] ?? a[3] ?? "";
+
+  // Width/height in a unit we can convert are rewritten; anything else
+  // (percentages, em) is kept as-is.
+  const lengthOf = (s: string | undefined) => {
+    const m = s?.trim().match(/^([-+\d.e]+)([a-z]*)$/i);
+    const unit = m?.[2].toLowerCase() ?? "";
+    return m && UNIT_PX[unit] !== undefined
+      ? { px: parseFloat(m[1]) * UNIT_PX[unit], unit }
+      : null;
+  };
+  const vb = numberList(attrs.viewBox);
+  const w = lengthOf(attrs.width);
+  const h = lengthOf(attrs.height);
+
+  // px per user unit along each axis.
+  let sx = 1;
+  let sy = 1;
+  if (vb.length === 4 && vb[2] > 0 && vb[3] > 0) {
+    if (w) sx = w.px / vb[2];
+    if (h) sy = h.px / vb[3];
+    if (!w && h) sx = sy;
+    if (!h && w) sy = sx;
+  }
+
+  const rootAttr = (name: string) =>
+    attrs[name] === undefined ? "" : ` ${name}="${attrs[name]}"`;
+  let out = tag[0].replace(
+    /\s(?:width|height|viewBox)\s*=\s*(?:"[^"]*"|'[^']*')/g,
+    "",
+  );
+  const extra = [
+    w
+      ? ` width="${fmt((box.width * sx) / UNIT_PX[w.unit])}${w.unit}"`
+      : rootAttr("width"),
+    h
+      ? ` height="${fmt((box.height * sy) / UNIT_PX[h.unit])}${h.unit}"`
+      : rootAttr("height"),
+    ` viewBox="${fmt(box.x)} ${fmt(box.y)} ${fmt(box.width)} ${fmt(box.height)}"`,
+  ].join("");
+  out = out.replace(/\s*(\/?)>$/, `${extra}$1>`);
+
+  return (
+    svgText.slice(0, tag.index) + out + svgText.slice(tag.index + tag[0].length)
+  );
+}
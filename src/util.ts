@@ -1,6 +1,9 @@
 import * as cp from "child_process";
+import * as fsSync from "fs";
 import * as fs from "fs/promises";
 import * as path from "path";
+import * as zlib from "zlib";
+import { AsyncLocalStorage } from "async_hooks";
 
 export const T_CONVERT_MS = 45_000;
 
@@ -33,9 +36,120 @@ export async function statSafe(
   }
 }
 
+// Hidden sibling of p used for atomic writes: rename() within one directory
+// never leaves a half-written file at p.
+export function tempSibling(p: string): string {
+  return path.join(path.dirname(p), `.${path.basename(p)}.${nonce()}.tmp`);
+}
+
+export async function writeFileAtomic(
+  outAbs: string,
+  data: Buffer | string,
+): Promise<void> {
+  const tmp = tempSibling(outAbs);
+  try {
+    await fs.writeFile(tmp, data);
+    await fs.rename(tmp, outAbs);
+  } finally {
+    await removeIfExists(tmp);
+  }
+}
+
+export async function copyFileAtomic(from: string, to: string): Promise<void> {
+  const tmp = tempSibling(to);
+  try {
+    await fs.copyFile(from, tmp);
+    await fs.rename(tmp, to);
+  } finally {
+    await removeIfExists(tmp);
+  }
+}
+
 export async function writeBytes(outAbs: string, bytes: Buffer): Promise<void> {
   await ensureDir(path.dirname(outAbs));
-  await fs.writeFile(outAbs, bytes);
+  await writeFileAtomic(outAbs, bytes);
+}
+
+// Renames, falling back to an atomic copy + unlink across file systems (e.g.
+// /tmp to a Windows drive under WSL).
+export async function moveFile(from: string, to: string): Promise<void> {
+  try {
+    await fs.rename(from, to);
+  } catch (e: any) {
+    if (e?.code !== "EXDEV") throw e;
+    await copyFileAtomic(from, to);
+    await removeIfExists(from);
+  }
+}
+
+// Returns the gunzipped bytes, or buf unchanged when it is not gzip data.
+export async function maybeGunzip(buf: Buffer): Promise<Buffer> {
+  return new Promise((resolve) =>
+    zlib.gunzip(buf, (err, out) => resolve(err ? buf : out)),
+  );
+}
+
+// ── Output naming ─────────────────────────────────────────────────────────────
+
+// Path of toFile relative to fromDir with / separators, as written in links.
+export function relPosixNoDot(fromDir: string, toFile: string): string {
+  return path.relative(fromDir, toFile).replace(/\\/g, "/");
+}
+
+// Replaces ${name} with vars[name]; unknown variables become "".
+export function expandTemplate(
+  tpl: string,
+  vars: Record<string, string>,
+): string {
+  return tpl.replace(/\$\{([^}]+)\}/g, (_, k) => vars[k] ?? "");
+}
+
+// Paths handed out this session and not written yet. A planned file may still
+// be converting in the background, so it does not exist on disk yet when the
+// next paste is planned. Once it exists the disk check covers it and the entry
+// is dropped; a paste that ends without writing it calls releasePath.
+const RESERVED_PATHS = new Set<string>();
+
+// Reserved path → the companion paths reserved along with it.
+const RESERVED_COMPANIONS = new Map<string, string[]>();
+
+// Returns the first candidate(n), n = 0, 1, 2, ..., that neither exists on disk
+// nor was reserved earlier, and reserves it. companions(p) are files written
+// next to p later (structure sidecars): they must be free too and are
+// reserved with it, so two outputs never share them.
+export function reserveFreePath(
+  candidate: (n: number) => string,
+  companions: (p: string) => string[] = () => [],
+): string {
+  for (let n = 0; n < 10_000; n++) {
+    const p = candidate(n);
+    if (fsSync.existsSync(p)) {
+      releasePath(p);
+      continue;
+    }
+    const group = [p, ...companions(p)];
+    if (group.some((g) => RESERVED_PATHS.has(g) || fsSync.existsSync(g)))
+      continue;
+    for (const g of group) RESERVED_PATHS.add(g);
+    RESERVED_COMPANIONS.set(p, group.slice(1));
+    return p;
+  }
+  throw new Error("No free output file name (10000 candidates taken).");
+}
+
+// Makes a reserved path (and its companions) available again. Paths never
+// reserved are ignored.
+export function releasePath(p: string): void {
+  for (const c of RESERVED_COMPANIONS.get(p) ?? []) RESERVED_PATHS.delete(c);
+  RESERVED_COMPANIONS.delete(p);
+  RESERVED_PATHS.delete(p);
+}
+
+// img.svg → img.svg, img_1.svg, img_2.svg, ...
+export function withNumericSuffix(p: string, n: number): string {
+  if (n === 0) return p;
+  const ext = path.extname(p);
+  return `${p.slice(0, p.length - ext.length)}_${n}${ext}`;
 }
 
 // ── Process helpers ───────────────────────────────────────────────────────────
@@ -53,13 +167,43 @@ export function commandExists(cmd: string): boolean {
   return ok;
 }
 
+// The abort signal of the conversion job the current async call chain belongs
+// to (see ConversionQueue). runText and runBin kill their child when it fires,
+// so cancelling a job stops only that job's tools.
+const JOB_SIGNAL = new AsyncLocalStorage<AbortSignal>();
+
+export function runWithAbortSignal<T>(signal: AbortSignal, fn: () => T): T {
+  return JOB_SIGNAL.run(signal, fn);
+}
+
+// Kills p with SIGKILL once signal (or, by default, the current job's signal)
+// aborts. The returned function detaches the listener.
+function killOnAbort(
+  p: cp.ChildProcess,
+  signal = JOB_SIGNAL.getStore(),
+): () => void {
+  if (!signal) return () => {};
+  const kill = () => {
+    try {
+      p.kill("SIGKILL");
+    } catch {}
+  };
+  if (signal.aborted) kill();
+  signal.addEventListener("abort", kill, { once: true });
+  return () => signal.removeEventListener("abort", kill);
+}
+
+// An aborted child resolves with code null. signal defaults to the current
+// conversion job's.
 export function runText(
   cmd: string,
   args: string[],
   timeoutMs: number,
+  signal?: AbortSignal,
 ): Promise<{ code: number | null; stdout: string; stderr: string }> {
   return new Promise((resolve) => {
     const p = cp.spawn(cmd, args, { stdio: ["ignore", "pipe", "pipe"] });
+    const detach = killOnAbort(p, signal);
     let stdout = "";
     let stderr = "";
     p.stdout.setEncoding("utf8");
@@ -78,10 +222,12 @@ export function runText(
     }, timeoutMs);
     p.on("close", (code) => {
       clearTimeout(timer);
+      detach();
       resolve({ code, stdout, stderr });
     });
     p.on("error", (e) => {
       clearTimeout(timer);
+      detach();
       resolve({
         code: -1,
         stdout,
@@ -95,9 +241,11 @@ export function runBin(
   cmd: string,
   args: string[],
   timeoutMs: number,
+  signal?: AbortSignal,
 ): Promise<{ code: number | null; bytes: Buffer; stderr: string }> {
   return new Promise((resolve) => {
     const p = cp.spawn(cmd, args, { stdio: ["ignore", "pipe", "pipe"] });
+    const detach = killOnAbort(p, signal);
     const chunks: Buffer[] = [];
     let stderr = "";
     p.stderr.setEncoding("utf8");
@@ -115,10 +263,12 @@ export function runBin(
     }, timeoutMs);
     p.on("close", (code) => {
       clearTimeout(timer);
+      detach();
       resolve({ code, bytes: Buffer.concat(chunks), stderr });
     });
     p.on("error", (e) => {
       clearTimeout(timer);
+      detach();
       resolve({
         code: -1,
         bytes: Buffer.concat(chunks),
@@ -0,0 +1,28 @@
+import * as vscode from "vscode";
+import * as fs from "fs/promises";
+
+import { DOC_EXTS, LinkingDoc, linkingText } from "./assets";
+import { ORIGINALS_DIR } from "./originals";
+
+// ── Scanning ──────────────────────────────────────────────────────────────────
+
+const DOC_GLOB = `**/*.{${DOC_EXTS.join(",")}}`;
+export const EXCLUDE_GLOB = `**/{node_modules,.git,${ORIGINALS_DIR}}/**`;
+
+// Open documents are read from the editor, so unsaved links count.
+export async function readLinkingDocs(): Promise<LinkingDoc[]> {
+  const open = new Map(
+    vscode.workspace.textDocuments.map((d) => [d.uri.fsPath, d.getText()]),
+  );
+  const docs: LinkingDoc[] = [];
+  for (const uri of await vscode.workspace.findFiles(DOC_GLOB, EXCLUDE_GLOB)) {
+    const abs = uri.fsPath;
+    try {
+      const raw = open.get(abs) ?? (await fs.readFile(abs, "utf8"));
+      docs.push({ abs, text: linkingText(abs, raw) });
+    } catch {
+      /* unreadable: cannot link anything */
+    }
+  }
+  return docs;
+}
@@ -0,0 +1,141 @@
+import * as path from "path";
+import {
+  destinationPattern,
+  findOrphans,
+  isLinkingDoc,
+  linkedFiles,
+  linkingText,
+  ownedAssetMoves,
+  relinkEdits,
+  renameOwnedAsset,
+} from "../src/assets";
+
+describe("pasted file names", () => {
+  test("default template, with taken-name suffixes", () => {
+    const re = destinationPattern(
+      "img_${documentBaseName}_${unixTime}.${fileExtName}",
+    );
+    expect(re.test("notes/img_intro_1700000000.svg")).toBe(true);
+    expect(re.test("img_intro_1700000000_2.png")).toBe(true);
+    expect(re.test("img_intro_now.svg")).toBe(false);
+    expect(re.test("img_intro_1700000000.md")).toBe(false);
+    expect(re.test("photo.svg")).toBe(false);
+  });
+
+  test("folders, hashes and counters", () => {
+    const hashed = destinationPattern(
+      "../assets/${contentHash}.${fileExtName}",
+    );
+    expect(hashed.test("docs/assets/0123456789ab.svg")).toBe(true);
+    expect(hashed.test("docs/0123456789ab.svg")).toBe(false);
+    expect(hashed.test("docs/assets/0123.svg")).toBe(false);
+
+    const counted = destinationPattern("fig-${counter}.${fileExtName}");
+    expect(counted.test("fig-12.jpg")).toBe(true);
+    expect(counted.test("fig-12_1.jpg")).toBe(false);
+  });
+});
+
+describe("orphaned images", () => {
+  const dir = path.resolve("/ws/notes");
+  const a = path.join(dir, "img", "a b.svg");
+  const b = path.join(dir, "img", "b.svg");
+  const c = path.join(dir, "img", "c.png");
+
+  test("links are resolved against their document", () => {
+    const doc = {
+      abs: path.join(dir, "x.md"),
+      text: "![](img/a%20b.svg) ![](https://e.org/b.svg) ![](attachment:c.png)",
+    };
+    expect(linkedFiles(doc)).toEqual([a]);
+  });
+
+  test("linked or mentioned files are not orphans", () => {
+    const docs = [
+      { abs: path.join(dir, "x.md"), text: "![](img/a%20b.svg)" },
+      { abs: path.join(dir, "y.md"), text: "[fig]: img/c.png\nsee xb.svg" },
+    ];
+    expect(findOrphans([a, b, c], docs)).toEqual([b]);
+  });
+
+  test("Quarto and R Markdown documents link images", () => {
+    expect(isLinkingDoc(path.join(dir, "report.qmd"))).toBe(true);
+    expect(isLinkingDoc(path.join(dir, "report.Rmd"))).toBe(true);
+    expect(isLinkingDoc(path.join(dir, "plot.R"))).toBe(false);
+    const abs = path.join(dir, "report.qmd");
+    const raw = "```{r}\nplot(x)\n```\n\n![](img/a%20b.svg){width=50%}\n";
+    const docs = [{ abs, text: linkingText(abs, raw) }];
+    expect(findOrphans([a, b], docs)).toEqual([b]);
+  });
+});
+
+describe("renamed documents", () => {
+  const tpl = "img_${documentBaseName}_${unixTime}.${fileExtName}";
+  const oldDoc = path.resolve("/ws/notes/intro.md");
+  const newDoc = path.resolve("/ws/archive/start.md");
+
+  test("owned images follow the document name", () => {
+    expect(renameOwnedAsset(tpl, "img_intro_17_1.svg", "intro", "start")).toBe(
+      "img_start_17_1.svg",
+    );
+    expect(renameOwnedAsset(tpl, "img_other_17.svg", "intro", "x")).toBeNull();
+    expect(
+      renameOwnedAsset(
+        "./fig/${documentBaseName}-${counter}.${fileExtName}",
+        "fig/intro-2.png",
+        "intro",
+        "start",
+      ),
+    ).toBe("fig/start-2.png");
+  });
+
+  test("the document's images move along and links are rewritten", () => {
+    const text =
+      "![](img_intro_17.svg) ![](img_other_17.svg) ![](../shared/a%20b.png)";
+    const moves = ownedAssetMoves(text, oldDoc, newDoc, tpl, true);
+    expect(moves).toEqual([
+      {
+        from: path.resolve("/ws/notes/img_intro_17.svg"),
+        to: path.resolve("/ws/archive/img_start_17.svg"),
+      },
+    ]);
+    const edits = relinkEdits(text, oldDoc, newDoc, moves);
+    expect(edits.map((e) => e.text)).toEqual([
+      "img_start_17.svg",
+      "../notes/img_other_17.svg",
+    ]);
+    const deeper = path.resolve("/ws/archive/2024/start.md");
+    expect(relinkEdits(text, oldDoc, deeper, [])[2].text).toBe(
+      "../../shared/a%20b.png",
+    );
+    expect(text.slice(edits[0].start, edits[0].end)).toBe("img_intro_17.svg");
+  });
+
+  test("images with brackets in their alt text move along", () => {
+    const text = "![\\[Cu(NH3)4\\]SO4](img_intro_17.svg)";
+    const moves = ownedAssetMoves(text, oldDoc, newDoc, tpl, true);
+    expect(moves).toEqual([
+      {
+        from: path.resolve("/ws/notes/img_intro_17.svg"),
+        to: path.resolve("/ws/archive/img_start_17.svg"),
+      },
+    ]);
+    expect(relinkEdits(text, oldDoc, newDoc, moves)).toEqual([
+      { start: 19, end: 35, text: "img_start_17.svg" },
+    ]);
+  });
+
+  test("other documents follow moved images", () => {
+    const other = path.resolve("/ws/notes/sub/other.md");
+    const moves = [
+      {
+        from: path.resolve("/ws/notes/img_intro_17.svg"),
+        to: path.resolve("/ws/archive/img_intro_17.svg"),
+      },
+    ];
+    const text = "\\includegraphics{../img_intro_17.svg} ![](../x.svg)";
+    expect(relinkEdits(text, other, other, moves)).toEqual([
+      { start: 17, end: 36, text: "../../archive/img_intro_17.svg" },
+    ]);
+  });
+});
@@ -1,7 +1,8 @@
 import * as path from "path";
 import * as fs from "fs/promises";
 import * as os from "os";
-import { convertEmfToSvg } from "../src/emf";
+import { convertEmfToSvg, emfScalePercentFromHeader } from "../src/emf";
+import { readEmfHeader } from "../src/emfsvg";
 import { commandExists, statSafe, nonce } from "../src/util";
 
 const FIXTURES = __dirname;
@@ -145,6 +146,34 @@ describe("scaleSvgRootDimensions — exact factor behavior", () => {
   });
 });
 
+// ── Scale detected from the EMF header ────────────────────────────────────────
+
+describe("EMF header scale detection", () => {
+  test("fixtures: reference device 1920 px / 344 mm → ≈141.8 dpi → ≈147.7%", async () => {
+    const pct = emfScalePercentFromHeader(readEmfHeader(await fs.readFile(EMF2)));
+    expect(pct).toBeCloseTo((1920 * 25.4 / 344 / 96) * 100, 6);
+  });
+
+  test("falls back to frame/bounds when device size is missing", async () => {
+    const h = readEmfHeader(await fs.readFile(EMF1));
+    const pct = emfScalePercentFromHeader({ ...h, millimeters: { cx: 0, cy: 0 } });
+    // 113 px across a 20 mm frame.
+    expect(pct).toBeCloseTo((113 * 25.4 / 20 / 96) * 100, 6);
+  });
+
+  test("scalePercent=null → root dimensions × 96/dpi of the reference device", async () => {
+    const outRaw  = tmpSvg("auto_raw");
+    const outAuto = tmpSvg("auto");
+    await convertEmfToSvg(EMF2, outRaw,  100,  false);
+    await convertEmfToSvg(EMF2, outAuto, null, false);
+    const raw  = await readSvgDimensions(outRaw);
+    const auto = await readSvgDimensions(outAuto);
+    expect(auto.width!).toBeCloseTo(raw.width! * (96 * 344) / (1920 * 25.4), 1);
+    expect(auto.height!).toBeCloseTo(raw.height! * (96 * 344) / (1920 * 25.4), 1);
+    console.log(`auto: ${auto.width}${auto.wUnit} × ${auto.height}${auto.hUnit}`);
+  });
+});
+
 // ── Fit step independence ─────────────────────────────────────────────────────
 
 describe("finalizeEmfWithInkscape — independent from scale correction", () => {
@@ -180,21 +209,20 @@ describe("finalizeEmfWithInkscape — independent from scale correction", () =>
   });
 });
 
-// ── emf2svg-conv missing → clear error ───────────────────────────────────────
+// ── emf2svg-conv missing → builtin converter ──────────────────────────────────
 
-describe("emf2svg-conv missing → clear error message", () => {
-  test("throws with a message mentioning emf2svg-conv when tool is absent", async () => {
-    // Exercise the error branch by pointing to a guaranteed-nonexistent binary.
-    // We can't easily mock commandExists, but we can verify the error by
-    // checking that a real missing-tool scenario throws the right message.
-    // If emf2svg-conv IS present, we skip this test (the tool is available).
+describe("emf2svg-conv missing → builtin converter", () => {
+  test("converts with the builtin EMF parser when the tool is absent", async () => {
+    // If emf2svg-conv IS present, we skip this test (the tool is used instead).
     if (commandExists("emf2svg-conv")) {
-      console.log("SKIP: emf2svg-conv is present; cannot test the missing-tool error path");
+      console.log("SKIP: emf2svg-conv is present; cannot test the builtin fallback path");
       return;
     }
-    await expect(
-      convertEmfToSvg(EMF2, tmpSvg("missing_conv"), 125, false)
-    ).rejects.toThrow(/emf2svg-conv/i);
+    const out = tmpSvg("missing_conv");
+    const logs: string[] = [];
+    await convertEmfToSvg(EMF2, out, 125, false, (m) => logs.push(m));
+    const text = await fs.readFile(out, "utf8");
+    expect(text).toMatch(/<svg/i);
+    expect(logs.join("\n")).toMatch(/handler=builtin/);
   });
 });
-
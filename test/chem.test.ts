@@ -0,0 +1,36 @@
+import {
+  SIDECAR_EXTS,
+  decodeMdlct,
+  encodeMdlct,
+  sidecarPath,
+} from "../src/chem";
+
+const MOLFILE = [
+  "benzene",
+  "  ChemDraw",
+  "",
+  "  6  6  0  0  0  0  0  0  0  0999 V2000",
+  "M  END",
+].join("\n");
+
+describe("native structure sidecars", () => {
+  test("sidecars share the image's base name", () => {
+    expect(sidecarPath("/notes/img/ring.svg", "cdx")).toBe(
+      "/notes/img/ring.cdx",
+    );
+    expect(sidecarPath("/notes/a.b.png", "mol")).toBe("/notes/a.b.mol");
+    expect(SIDECAR_EXTS).toEqual(["cdx", "cdxml", "mol", "smi"]);
+  });
+
+  test("MDLCT round-trips a molfile", () => {
+    const ct = encodeMdlct(MOLFILE + "\r\n");
+    expect(ct[0]).toBe("benzene".length);
+    expect(ct.toString("latin1", 1, 8)).toBe("benzene");
+    expect(decodeMdlct(ct)).toBe(MOLFILE);
+  });
+
+  test("truncated MDLCT data decodes what is there", () => {
+    const ct = encodeMdlct("abc\ndef");
+    expect(decodeMdlct(ct.subarray(0, ct.length - 1))).toBe("abc\nde");
+  });
+});
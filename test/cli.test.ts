@@ -0,0 +1,52 @@
+import * as path from "path";
+import * as fs from "fs/promises";
+import * as os from "os";
+import { CliIo, main } from "../src/cli";
+import { nonce } from "../src/util";
+
+const EMF2 = path.join(__dirname, "test2.emf");
+
+function capture(): CliIo & { stdout: string; stderr: string } {
+  const io = {
+    stdout: "",
+    stderr: "",
+    out: (t: string) => void (io.stdout += t),
+    err: (t: string) => void (io.stderr += t),
+  };
+  return io;
+}
+
+describe("pastevector CLI", () => {
+  test("convert writes a fitted SVG", async () => {
+    const out = path.join(os.tmpdir(), `pv_test_cli_${nonce()}.svg`);
+    const io = capture();
+    const code = await main(
+      ["convert", EMF2, out, "--emf-scale", "100", "--fit-engine", "builtin"],
+      io,
+    );
+    expect(io.stderr).toBe("");
+    expect(code).toBe(0);
+    expect(await fs.readFile(out, "utf8")).toMatch(/<svg\b[^>]*viewBox=/);
+    await fs.rm(out, { force: true });
+  });
+
+  test("usage errors exit with 2", async () => {
+    const help = capture();
+    expect(await main(["--help"], help)).toBe(0);
+    expect(help.stdout).toMatch(/^Usage: pastevector/);
+
+    for (const argv of [
+      [],
+      ["frobnicate"],
+      ["convert", EMF2],
+      ["convert", EMF2, "out.png"],
+      ["paste", "--format", "html"],
+      ["paste", "--bogus"],
+    ]) {
+      const io = capture();
+      expect(await main(argv, io)).toBe(2);
+      expect(io.stderr).not.toBe("");
+      expect(io.stdout).toBe("");
+    }
+  });
+});
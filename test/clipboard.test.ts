@@ -0,0 +1,269 @@
+import * as path from "path";
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as zlib from "zlib";
+import * as util from "../src/util";
+import {
+  clipboardHasImage,
+  listClipboardTypes,
+  planLinuxClipboard,
+} from "../src/clipboard";
+import {
+  FixtureBackend,
+  getBackends,
+  recordClipboard,
+  registerClipboardBackend,
+  writeManifest,
+} from "../src/clipboardBackends";
+import { NO_RULES, parseFormatRules } from "../src/priority";
+import { POWERSHELL } from "../src/powershell";
+
+const EMF2 = path.join(__dirname, "test2.emf");
+const SVG =
+  '<svg xmlns="http://www.w3.org/2000/svg" width="100" height="100">' +
+  '<rect x="10" y="20" width="30" height="40"/></svg>';
+const CONFIG = {
+  emfScalePercent: 100,
+  finalizeEmfWithInkscape: true,
+  fitEngine: "builtin" as const,
+  keepNativeStructure: false,
+};
+const log = () => {};
+
+let tmp: string;
+let registered: { dispose: () => void }[] = [];
+
+// A fixture directory holding the given types → bytes.
+async function fixture(types: Record<string, Buffer | string>) {
+  const dir = path.join(tmp, `clip_${util.nonce()}`);
+  await fs.mkdir(dir);
+  for (const [type, bytes] of Object.entries(types)) {
+    await fs.writeFile(path.join(dir, encodeURIComponent(type)), bytes);
+  }
+  return dir;
+}
+
+async function useFixture(
+  types: Record<string, Buffer | string>,
+  kind?: string,
+) {
+  const backend = new FixtureBackend(await fixture(types), kind);
+  registered.push(registerClipboardBackend(backend.kind, () => backend));
+  return backend;
+}
+
+const outPath = (ext: string) => path.join(tmp, `out_${util.nonce()}.${ext}`);
+
+beforeAll(async () => {
+  tmp = path.join(os.tmpdir(), `pv_test_clip_${util.nonce()}`);
+  await fs.mkdir(tmp, { recursive: true });
+});
+
+// No real wl-paste / xclip: only registered fixtures are backends.
+beforeEach(() => {
+  jest.spyOn(util, "commandExists").mockReturnValue(false);
+});
+
+afterEach(() => {
+  for (const r of registered) r.dispose();
+  registered = [];
+  jest.restoreAllMocks();
+});
+
+afterAll(async () => {
+  await fs.rm(tmp, { recursive: true, force: true });
+});
+
+describe("clipboard backends", () => {
+  test("a fixture serves its types and text", async () => {
+    const b = await useFixture({
+      "text/plain;charset=utf-8": "benzene",
+      "image/png": Buffer.from([1, 2, 3]),
+    });
+    expect(await b.listTypes()).toEqual([
+      { raw: "image/png", base: "image/png" },
+      { raw: "text/plain;charset=utf-8", base: "text/plain" },
+    ]);
+    expect(await b.readType("image/png")).toEqual(Buffer.from([1, 2, 3]));
+    await expect(b.readType("image/jpeg")).rejects.toThrow(/read failed/);
+    expect(await b.readText()).toBe("benzene");
+    expect(await listClipboardTypes("auto")).toEqual([
+      { kind: "fixture", types: ["image/png", "text/plain"] },
+    ]);
+  });
+
+  test("under WSL the Windows formats are listed first, with sizes", async () => {
+    await useFixture({ "image/png": "a" });
+    jest.spyOn(util, "isWSL").mockReturnValue(true);
+    jest
+      .spyOn(util, "commandExists")
+      .mockImplementation((c) => c === "powershell.exe");
+    const run = jest.spyOn(POWERSHELL, "run").mockResolvedValue({
+      code: 0,
+      stdout:
+        "source\tChemDraw\r\n" +
+        "type\tEnhancedMetafile\t5120\r\n" +
+        "type\tChemDraw Interchange Format\t812\r\n" +
+        "type\tBitmap\t-1\r\n",
+      stderr: "",
+    });
+    expect(await listClipboardTypes("auto")).toEqual([
+      {
+        kind: "windows",
+        source: "ChemDraw",
+        types: ["EnhancedMetafile", "ChemDraw Interchange Format", "Bitmap"],
+        sizes: { EnhancedMetafile: 5120, "ChemDraw Interchange Format": 812 },
+      },
+      { kind: "fixture", types: ["image/png"] },
+    ]);
+    expect(run.mock.calls[0][0]).toMatch(/GetFormats/);
+  });
+
+  test("the preferred kind goes first, disposed ones are gone", async () => {
+    await useFixture({ "image/png": "a" }, "one");
+    await useFixture({ "image/png": "b" }, "two");
+    expect(getBackends("auto").map((b) => b.kind)).toEqual(["two", "one"]);
+    expect(getBackends("one").map((b) => b.kind)).toEqual(["one", "two"]);
+    registered.pop()!.dispose();
+    expect(getBackends("auto").map((b) => b.kind)).toEqual(["one"]);
+  });
+
+  test("recording reproduces the clipboard", async () => {
+    const source = await useFixture({ "image/svg+xml": SVG, TARGETS: "" });
+    const dir = path.join(tmp, `rec_${util.nonce()}`);
+    const manifest = await recordClipboard(source, dir);
+    expect(manifest.backend).toBe("fixture");
+    expect(manifest.types).toEqual([
+      { type: "image/svg+xml", size: SVG.length, file: "image%2Fsvg%2Bxml" },
+    ]);
+    const copy = new FixtureBackend(dir);
+    expect((await copy.readType("image/svg+xml")).toString()).toBe(SVG);
+  });
+
+  test("Windows snapshots are served under MIME types", async () => {
+    const dir = await fixture({ EnhancedMetafile: await fs.readFile(EMF2) });
+    await writeManifest(dir, {
+      backend: "windows",
+      source: "ChemDraw",
+      created: new Date().toISOString(),
+      types: [{ type: "EnhancedMetafile", size: 1, file: "EnhancedMetafile" }],
+    });
+    const backend = new FixtureBackend(dir, "windows");
+    registered.push(registerClipboardBackend(backend.kind, () => backend));
+    const plan = (await planLinuxClipboard(
+      "auto",
+      outPath,
+      true,
+      CONFIG,
+      log,
+    ))!;
+    expect(plan.handler).toBe("linux-emf");
+    expect(plan.usedType).toBe("windows/image/emf");
+  });
+});
+
+describe("Linux handler selection", () => {
+  test("the image probe lists types but reads nothing", async () => {
+    const b = await useFixture({ "text/plain": "x", "image/png": "a" });
+    const read = jest.spyOn(b, "readType");
+    expect(await clipboardHasImage("auto", NO_RULES, () => {})).toBe(true);
+    expect(
+      await clipboardHasImage("auto", parseFormatRules(["!png"]), () => {}),
+    ).toBe(false);
+    expect(read).not.toHaveBeenCalled();
+  });
+
+  test("SVG wins over PNG and HTML and is fitted", async () => {
+    await useFixture({
+      "text/html": "<p>x</p>",
+      "image/png": Buffer.from([1]),
+      "image/svg+xml": SVG,
+    });
+    const plan = (await planLinuxClipboard(
+      "auto",
+      outPath,
+      true,
+      CONFIG,
+      log,
+    ))!;
+    expect(plan.handler).toBe("linux-svg");
+    expect(plan.usedType).toBe("fixture/image/svg+xml");
+    await plan.convert();
+    expect(await fs.readFile(plan.outAbs, "utf8")).toMatch(
+      /viewBox="10 20 30 40"/,
+    );
+    expect((await plan.original!.read())!.toString()).toBe(SVG);
+  });
+
+  test("fitting problems reach the log", async () => {
+    await useFixture({
+      "image/svg+xml":
+        '<svg xmlns="http://www.w3.org/2000/svg"><path d="M 0 0 L x"/></svg>',
+    });
+    const seen: string[] = [];
+    const plan = (await planLinuxClipboard("auto", outPath, true, CONFIG, (m) =>
+      seen.push(m),
+    ))!;
+    await plan.convert();
+    expect(seen.join("\n")).toMatch(/warn fitSvgWithBuiltin: bad path data/);
+  });
+
+  test("compressed SVG is unpacked", async () => {
+    await useFixture({ "image/svg+xml-compressed": zlib.gzipSync(SVG) });
+    const plan = (await planLinuxClipboard(
+      "auto",
+      outPath,
+      false,
+      CONFIG,
+      log,
+    ))!;
+    expect(plan.handler).toBe("linux-svgz");
+    await plan.convert();
+    expect(await fs.readFile(plan.outAbs, "utf8")).toBe(SVG);
+  });
+
+  test("EMF is converted to SVG", async () => {
+    await useFixture({ "image/x-emf": await fs.readFile(EMF2) });
+    const plan = (await planLinuxClipboard(
+      "auto",
+      outPath,
+      true,
+      CONFIG,
+      log,
+    ))!;
+    expect(plan.handler).toBe("linux-emf");
+    expect(path.extname(plan.outAbs)).toBe(".svg");
+    await plan.convert();
+    expect(await fs.readFile(plan.outAbs, "utf8")).toMatch(/<svg\b/);
+  });
+
+  test("priority rules and fallbacks", async () => {
+    await useFixture({ "image/png": Buffer.from([1]) }, "second");
+    await useFixture({ "text/plain": "no image here" }, "first");
+    const png = (await planLinuxClipboard("auto", outPath, true, CONFIG, log))!;
+    expect(png.usedType).toBe("second/image/png");
+
+    await useFixture({ "image/svg+xml": SVG, "image/jpeg": Buffer.from([2]) });
+    const rules = parseFormatRules(["!svg"]);
+    const jpg = await planLinuxClipboard("auto", outPath, true, CONFIG, log, {
+      rules,
+    });
+    expect(jpg!.handler).toBe("linux-jpg");
+
+    const empty = await planLinuxClipboard("auto", outPath, true, CONFIG, log, {
+      rules: parseFormatRules(["!svg", "!jpg", "!png"]),
+    });
+    expect(empty).toBeNull();
+
+    // A failed read surfaces from convert(), not from planning.
+    await useFixture({ "image/png": "" }, "broken");
+    const broken = (await planLinuxClipboard(
+      "auto",
+      outPath,
+      true,
+      CONFIG,
+      log,
+    ))!;
+    await expect(broken.convert()).rejects.toThrow(/read failed/);
+  });
+});
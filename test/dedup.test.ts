@@ -0,0 +1,199 @@
+import * as path from "path";
+import * as fs from "fs/promises";
+import * as os from "os";
+import { findDuplicate, hashFile, placeHashedOutput } from "../src/dedup";
+import { CoreOptions, pasteTarget, placeOutput } from "../src/core";
+import { originalPath } from "../src/originals";
+import { NO_RULES } from "../src/priority";
+import {
+  nonce,
+  releasePath,
+  reserveFreePath,
+  statSafe,
+  withNumericSuffix,
+  writeFileAtomic,
+} from "../src/util";
+
+async function tmpDir() {
+  const dir = path.join(os.tmpdir(), `pv_test_dedup_${nonce()}`);
+  await fs.mkdir(dir, { recursive: true });
+  return dir;
+}
+
+async function stage(content: string, ext = "svg") {
+  const p = path.join(os.tmpdir(), `pv_test_stage_${nonce()}.${ext}`);
+  await fs.writeFile(p, content);
+  return p;
+}
+
+describe("content-hash placement", () => {
+  test("moves the staged file to the hashed name", async () => {
+    const dir = await tmpDir();
+    const staged = await stage("<svg>a</svg>");
+    const hash = await hashFile(staged);
+    const out = await placeHashedOutput(
+      staged,
+      (h) => path.join(dir, `img_${h}.svg`),
+      false,
+    );
+    expect(out).toBe(path.join(dir, `img_${hash.slice(0, 12)}.svg`));
+    expect((await statSafe(staged)).exists).toBe(false);
+    expect(await fs.readFile(out, "utf8")).toBe("<svg>a</svg>");
+  });
+
+  test("dedupe reuses an identical file and drops the staged one", async () => {
+    const dir = await tmpDir();
+    const existing = path.join(dir, "img_notes_1700000000.svg");
+    await fs.writeFile(existing, "<svg>same</svg>");
+    await fs.writeFile(path.join(dir, "other.svg"), "<svg>diff</svg>");
+    const staged = await stage("<svg>same</svg>");
+    const out = await placeHashedOutput(
+      staged,
+      () => path.join(dir, "img_notes_1800000000.svg"),
+      true,
+    );
+    expect(out).toBe(existing);
+    expect((await statSafe(staged)).exists).toBe(false);
+    expect((await fs.readdir(dir)).sort()).toEqual([
+      "img_notes_1700000000.svg",
+      "other.svg",
+    ]);
+  });
+
+  test("dedupe writes a new file when nothing matches", async () => {
+    const dir = await tmpDir();
+    await fs.writeFile(path.join(dir, "a.png"), "<svg>same</svg>");
+    const staged = await stage("<svg>same</svg>");
+    const out = await placeHashedOutput(
+      staged,
+      () => path.join(dir, "b.svg"),
+      true,
+    );
+    expect(out).toBe(path.join(dir, "b.svg"));
+  });
+
+  test("different bytes under the same hashed name get a suffix", async () => {
+    const dir = await tmpDir();
+    const staged = await stage("<svg>new</svg>");
+    await fs.writeFile(path.join(dir, "img.svg"), "<svg>old</svg>");
+    const out = await placeHashedOutput(
+      staged,
+      (_h, n) => withNumericSuffix(path.join(dir, "img.svg"), n),
+      false,
+    );
+    expect(out).toBe(path.join(dir, "img_1.svg"));
+    expect(await fs.readFile(path.join(dir, "img.svg"), "utf8")).toBe(
+      "<svg>old</svg>",
+    );
+  });
+
+  test("a reused image keeps the structure files and original it has", async () => {
+    const dir = await tmpDir();
+    const opts: CoreOptions = {
+      preferBackend: "auto",
+      destinationTemplate: "img_${unixTime}.${fileExtName}",
+      finalizeSvg: true,
+      deduplicate: true,
+      formatPriority: NO_RULES,
+      keepOriginals: true,
+      linkTemplate: "",
+      emfScalePercent: null,
+      finalizeEmfWithInkscape: false,
+      fitEngine: "builtin",
+      keepNativeStructure: true,
+    };
+    const existing = path.join(dir, "img_1700000000.svg");
+    await fs.writeFile(existing, "<svg>same</svg>");
+    await fs.writeFile(path.join(dir, "img_1700000000.mol"), "old mol");
+    await fs.mkdir(path.dirname(originalPath(existing, "emf")));
+    await fs.writeFile(originalPath(existing, "emf"), "old emf");
+
+    const target = pasteTarget(path.join(dir, "notes.md"), opts);
+    const mol = await stage("new mol", "mol");
+    const cdx = await stage("new cdx", "cdx");
+    const plan = {
+      outAbs: await stage("<svg>same</svg>"),
+      handler: "test",
+      usedType: "test",
+      convert: async () => {},
+      sidecars: [
+        { ext: "mol", abs: mol },
+        { ext: "cdx", abs: cdx },
+      ],
+      original: { ext: "svg" as const, read: async () => Buffer.from("new") },
+    };
+    expect(await placeOutput(plan, target, opts, () => {})).toBe(existing);
+    expect((await fs.readdir(dir)).sort()).toEqual([
+      ".pastevector",
+      "img_1700000000.mol",
+      "img_1700000000.svg",
+    ]);
+    expect(
+      await fs.readFile(path.join(dir, "img_1700000000.mol"), "utf8"),
+    ).toBe("old mol");
+    expect(await fs.readdir(path.join(dir, ".pastevector"))).toEqual([
+      "img_1700000000.svg.emf",
+    ]);
+  });
+
+  test("findDuplicate on a missing folder → null", async () => {
+    expect(
+      await findDuplicate(
+        path.join(os.tmpdir(), `pv_none_${nonce()}`),
+        "svg",
+        "0",
+        1,
+      ),
+    ).toBeNull();
+  });
+});
+
+// ── Output naming ─────────────────────────────────────────────────────────────
+
+describe("collision-free names", () => {
+  test("withNumericSuffix inserts _n before the extension", () => {
+    expect(withNumericSuffix("/a/img.svg", 0)).toBe("/a/img.svg");
+    expect(withNumericSuffix("/a/img.svg", 2)).toBe("/a/img_2.svg");
+    expect(withNumericSuffix("/a/img", 1)).toBe("/a/img_1");
+  });
+
+  test("reserveFreePath skips existing files and earlier reservations", async () => {
+    const dir = await tmpDir();
+    await fs.writeFile(path.join(dir, "img.svg"), "x");
+    const cand = (n: number) => withNumericSuffix(path.join(dir, "img.svg"), n);
+    expect(reserveFreePath(cand)).toBe(path.join(dir, "img_1.svg"));
+    expect(reserveFreePath(cand)).toBe(path.join(dir, "img_2.svg"));
+  });
+
+  test("released paths are handed out again", async () => {
+    const dir = await tmpDir();
+    const cand = (n: number) => withNumericSuffix(path.join(dir, "img.svg"), n);
+    const first = reserveFreePath(cand);
+    expect(reserveFreePath(cand)).toBe(path.join(dir, "img_1.svg"));
+    releasePath(first);
+    expect(reserveFreePath(cand)).toBe(first);
+  });
+
+  test("companion names are reserved with the path", async () => {
+    const dir = await tmpDir();
+    const cdx = (p: string) => [p.replace(/\.[^.]+$/, ".cdx")];
+    const svg = (n: number) => withNumericSuffix(path.join(dir, "img.svg"), n);
+    const png = (n: number) => withNumericSuffix(path.join(dir, "img.png"), n);
+    expect(reserveFreePath(svg, cdx)).toBe(path.join(dir, "img.svg"));
+    // img.png would share img.cdx with img.svg.
+    expect(reserveFreePath(png, cdx)).toBe(path.join(dir, "img_1.png"));
+    await fs.writeFile(path.join(dir, "img_2.cdx"), "x");
+    expect(reserveFreePath(svg, cdx)).toBe(path.join(dir, "img_3.svg"));
+    releasePath(path.join(dir, "img.svg"));
+    expect(reserveFreePath(png, cdx)).toBe(path.join(dir, "img.png"));
+  });
+
+  test("writeFileAtomic leaves no temp file behind", async () => {
+    const dir = await tmpDir();
+    const p = path.join(dir, "out.svg");
+    await writeFileAtomic(p, "<svg/>");
+    await writeFileAtomic(p, "<svg>2</svg>");
+    expect(await fs.readdir(dir)).toEqual(["out.svg"]);
+    expect(await fs.readFile(p, "utf8")).toBe("<svg>2</svg>");
+  });
+});
@@ -0,0 +1,68 @@
+import * as path from "path";
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as zlib from "zlib";
+import { planDroppedFile } from "../src/drop";
+import { PasteSettings } from "../src/paste";
+import { NO_RULES } from "../src/priority";
+import { nonce, statSafe } from "../src/util";
+
+const EMF2 = path.join(__dirname, "test2.emf");
+
+const SETTINGS: PasteSettings = {
+  preferBackend: "auto",
+  destinationTemplate: "img.${fileExtName}",
+  altText: "",
+  altTextMode: "static",
+  copyMarkdownToClipboard: false,
+  finalizeSvg: true,
+  emfScalePercent: null,
+  finalizeEmfWithInkscape: true,
+  fitEngine: "builtin",
+  deduplicate: false,
+  replaceDefaultPaste: false,
+  formatPriority: NO_RULES,
+  linkStyle: "markdown",
+  latexFigure: false,
+  notebookAttachments: true,
+  linkTemplate: "",
+  keepNativeStructure: true,
+  keepOriginals: true,
+};
+
+function tmpOut(ext: string) {
+  return path.join(os.tmpdir(), `pv_test_drop_${nonce()}.${ext}`);
+}
+
+describe("dropped files", () => {
+  test("svgz is gunzipped and fitted", async () => {
+    const svg =
+      '<svg xmlns="http://www.w3.org/2000/svg" width="500" height="500">' +
+      '<rect x="10" y="10" width="20" height="20"/></svg>';
+    const inAbs = tmpOut("svgz");
+    await fs.writeFile(inAbs, zlib.gzipSync(svg));
+    const plan = planDroppedFile(inAbs, tmpOut, SETTINGS, () => {})!;
+    expect(plan.handler).toBe("svgz");
+    expect(plan.outAbs.endsWith(".svg")).toBe(true);
+    await plan.convert();
+    const out = await fs.readFile(plan.outAbs, "utf8");
+    expect(out).toMatch(/viewBox="10 10 20 20"/);
+    expect((await statSafe(inAbs)).exists).toBe(true);
+  });
+
+  test("emf converts to svg; a temporary input lives until dispose", async () => {
+    const inAbs = tmpOut("EMF");
+    await fs.copyFile(EMF2, inAbs);
+    const plan = planDroppedFile(inAbs, tmpOut, SETTINGS, () => {}, true)!;
+    expect(plan.usedType).toBe("file:.emf");
+    await plan.convert();
+    expect(await fs.readFile(plan.outAbs, "utf8")).toMatch(/<svg/);
+    expect((await statSafe(inAbs)).exists).toBe(true);
+    await plan.dispose!();
+    expect((await statSafe(inAbs)).exists).toBe(false);
+  });
+
+  test("unsupported extensions → null", () => {
+    expect(planDroppedFile("/x/a.png", tmpOut, SETTINGS, () => {})).toBeNull();
+  });
+});
@@ -0,0 +1,160 @@
+import * as path from "path";
+import * as fs from "fs/promises";
+import { emfToSvg, readEmfHeader } from "../src/emfsvg";
+
+const EMF1 = path.join(__dirname, "test1.emf");
+const EMF2 = path.join(__dirname, "test2.emf");
+
+// Builds a minimal EMF: header + the given records + EOF.
+function buildEmf(records: Buffer[]): Buffer {
+  const header = Buffer.alloc(108);
+  header.writeUInt32LE(1, 0);
+  header.writeUInt32LE(108, 4);
+  [0, 0, 199, 99].forEach((v, i) => header.writeInt32LE(v, 8 + i * 4));
+  [0, 0, 5292, 2646].forEach((v, i) => header.writeInt32LE(v, 24 + i * 4));
+  header.writeUInt32LE(0x464d4520, 40);
+  header.writeUInt32LE(0x10000, 44);
+  header.writeUInt32LE(records.length + 2, 52);
+  [1920, 1080, 508, 286].forEach((v, i) => header.writeInt32LE(v, 72 + i * 4));
+  const eof = record(14, [0, 16, 20]);
+  const body = Buffer.concat([header, ...records, eof]);
+  body.writeUInt32LE(body.length, 48);
+  return body;
+}
+
+function record(type: number, ints: number[]): Buffer {
+  const b = Buffer.alloc(8 + ints.length * 4);
+  b.writeUInt32LE(type, 0);
+  b.writeUInt32LE(b.length, 4);
+  ints.forEach((v, i) => b.writeUInt32LE(v >>> 0, 8 + i * 4));
+  return b;
+}
+
+function xformRecord(m: number[], mode: number): Buffer {
+  const b = Buffer.alloc(36);
+  b.writeUInt32LE(36, 0);
+  b.writeUInt32LE(36, 4);
+  m.forEach((v, i) => b.writeFloatLE(v, 8 + i * 4));
+  b.writeUInt32LE(mode, 32);
+  return b;
+}
+
+// ── Header ────────────────────────────────────────────────────────────────────
+
+describe("readEmfHeader", () => {
+  test("reads bounds, frame and reference device from the fixtures", async () => {
+    const h = readEmfHeader(await fs.readFile(EMF1));
+    expect(h.bounds).toEqual({
+      left: 1320,
+      top: 444,
+      right: 1432,
+      bottom: 501,
+    });
+    expect(h.frame.right - h.frame.left).toBe(2000);
+    expect(h.device).toEqual({ cx: 1920, cy: 1080 });
+    expect(h.millimeters).toEqual({ cx: 344, cy: 193 });
+  });
+
+  test("rejects non-EMF data", () => {
+    expect(() => readEmfHeader(Buffer.from("<svg/>"))).toThrow(/Not an EMF/);
+  });
+});
+
+// ── Fixtures ──────────────────────────────────────────────────────────────────
+
+describe("emfToSvg — ChemDraw fixtures", () => {
+  test("test2.emf: bonds become stroked paths inside the header bounds", async () => {
+    const svg = emfToSvg(await fs.readFile(EMF2));
+    expect(svg).toMatch(/<svg[^>]*viewBox="1327 533 113 58"/);
+    const paths = svg.match(/<path /g) ?? [];
+    expect(paths.length).toBeGreaterThanOrEqual(15);
+    for (const m of svg.matchAll(/d="M([\d.]+) ([\d.]+)/g)) {
+      expect(+m[1]).toBeGreaterThanOrEqual(1327);
+      expect(+m[1]).toBeLessThanOrEqual(1440);
+      expect(+m[2]).toBeGreaterThanOrEqual(533);
+      expect(+m[2]).toBeLessThanOrEqual(591);
+    }
+  });
+
+  test("test2.emf: atom label is emitted as text with the EMF font", async () => {
+    const svg = emfToSvg(await fs.readFile(EMF2));
+    expect(svg).toMatch(/<text [^>]*font-family="Fira Sans"[^>]*>O<\/text>/);
+  });
+
+  test("test1.emf: converts without warnings", async () => {
+    const warnings: string[] = [];
+    const svg = emfToSvg(await fs.readFile(EMF1), (m) => warnings.push(m));
+    expect(svg).toMatch(/<path /);
+    expect(warnings).toEqual([]);
+  });
+});
+
+// ── Synthetic records ─────────────────────────────────────────────────────────
+
+describe("emfToSvg — GDI records", () => {
+  test("rectangle uses the selected brush and pen", () => {
+    const svg = emfToSvg(
+      buildEmf([
+        record(39, [1, 0, 0x0000ff]), // CREATEBRUSHINDIRECT red
+        record(37, [1]), // SELECTOBJECT
+        record(38, [2, 0, 3, 0, 0x00ff00]), // CREATEPEN green, width 3
+        record(37, [2]),
+        record(43, [10, 20, 50, 60]), // RECTANGLE
+      ]),
+    );
+    expect(svg).toContain('<path d="M10 20L50 20L50 60L10 60Z"');
+    expect(svg).toContain('fill="#ff0000"');
+    expect(svg).toContain('stroke="#00ff00" stroke-width="3"');
+  });
+
+  test("null brush and null pen produce no output element", () => {
+    expect(() =>
+      emfToSvg(
+        buildEmf([
+          record(37, [0x80000005]), // NULL_BRUSH
+          record(37, [0x80000008]), // NULL_PEN
+          record(43, [0, 0, 10, 10]),
+        ]),
+      ),
+    ).toThrow(/no drawing records/);
+  });
+
+  test("world transform scales coordinates and pen width", () => {
+    const svg = emfToSvg(
+      buildEmf([
+        xformRecord([0.5, 0, 0, 0.5, 10, 0], 4), // MWT_SET
+        record(95, [1, 0, 0, 0, 0, 0x10000, 4, 0, 0, 0, 0]), // EXTCREATEPEN geometric, width 4
+        record(37, [1]),
+        record(27, [0, 0]), // MOVETOEX
+        record(54, [100, 40]), // LINETO
+      ]),
+    );
+    expect(svg).toContain('d="M10 0L60 20"');
+    expect(svg).toContain('stroke-width="2"');
+  });
+
+  test("path bracket with Bézier is filled with the winding rule", () => {
+    const svg = emfToSvg(
+      buildEmf([
+        record(19, [2]), // SETPOLYFILLMODE WINDING
+        record(37, [0x80000004]), // BLACK_BRUSH
+        record(59, []), // BEGINPATH
+        record(27, [0, 0]),
+        record(5, [0, 0, 0, 0, 3, 0, 10, 10, 10, 10, 0]), // POLYBEZIERTO
+        record(61, []), // CLOSEFIGURE
+        record(60, []), // ENDPATH
+        record(62, [0, 0, 10, 10]), // FILLPATH
+      ]),
+    );
+    expect(svg).toContain('d="M0 0C0 10 10 10 10 0Z"');
+    expect(svg).toContain('fill-rule="nonzero"');
+    expect(svg).toContain('stroke="none"');
+  });
+
+  test("ellipse becomes four Bézier quadrants", () => {
+    const svg = emfToSvg(buildEmf([record(42, [0, 0, 20, 10])]));
+    const d = svg.match(/<path d="([^"]+)"/)![1];
+    expect(d.match(/C/g)).toHaveLength(4);
+    expect(d.startsWith("M20 5")).toBe(true);
+  });
+});
@@ -0,0 +1,184 @@
+import {
+  LinkOptions,
+  altTextFromClipboard,
+  altTextFromFilename,
+  formatImageLink,
+  imageSizeOf,
+  linkAt,
+  linkPathAt,
+  linkSeparator,
+  templateNeedsSize,
+  withExtension,
+} from "../src/links";
+
+function link(o: Partial<LinkOptions>, rel = "img/a b.svg") {
+  return formatImageLink(rel, {
+    style: "markdown",
+    altText: "",
+    latexFigure: false,
+    template: "",
+    ...o,
+  });
+}
+
+describe("image link formats", () => {
+  test("markdown escapes brackets and backslashes in alt text", () => {
+    expect(link({})).toBe("![](img/a b.svg)");
+    expect(link({ altText: "x [1]" })).toBe("![x \\[1\\]](img/a b.svg)");
+    expect(link({ altText: "a\\b" })).toBe("![a\\\\b](img/a b.svg)");
+  });
+
+  test("latex, optionally as a captioned figure", () => {
+    expect(link({ style: "latex" })).toBe("\\includegraphics{img/a b.svg}");
+    expect(
+      link({ style: "latex", latexFigure: true, altText: "50% yield_1" }),
+    ).toBe(
+      [
+        "\\begin{figure}[htbp]",
+        "  \\centering",
+        "  \\includegraphics{img/a b.svg}",
+        "  \\caption{50\\% yield\\_1}",
+        "\\end{figure}",
+      ].join("\n"),
+    );
+  });
+
+  test("asciidoc quotes alt text containing commas", () => {
+    expect(link({ style: "asciidoc" })).toBe("image::img/a b.svg[]");
+    expect(link({ style: "asciidoc", altText: "a, b" })).toBe(
+      'image::img/a b.svg["a, b"]',
+    );
+  });
+
+  test("rst, typst and org", () => {
+    expect(link({ style: "rst", altText: "benzene" })).toBe(
+      ".. image:: img/a b.svg\n   :alt: benzene",
+    );
+    expect(link({ style: "typst", altText: 'the "ring"' })).toBe(
+      '#image("img/a b.svg", alt: "the \\"ring\\"")',
+    );
+    expect(link({ style: "org" })).toBe("[[file:img/a b.svg]]");
+  });
+
+  test("block-level links are separated by blank lines", () => {
+    const o: LinkOptions = {
+      style: "rst",
+      altText: "",
+      latexFigure: false,
+      template: "",
+    };
+    expect(linkSeparator(o)).toBe("\n\n");
+    expect(linkSeparator({ ...o, style: "typst" })).toBe(" ");
+  });
+
+  test("link template with size variables", () => {
+    const template =
+      '<img src="${path}" width="${width}" height="${height}" alt="${altText}">';
+    expect(templateNeedsSize(template)).toBe(true);
+    expect(templateNeedsSize("![${altText}](${path})")).toBe(false);
+    expect(
+      link({
+        template,
+        altText: "ring",
+        size: { widthPx: 120.4, heightPx: 60 },
+      }),
+    ).toBe('<img src="img/a b.svg" width="120" height="60" alt="ring">');
+    expect(
+      link({
+        template: "![${fileName}](${path}){width=${widthMm}mm}",
+        size: { widthPx: 96, heightPx: 48 },
+      }),
+    ).toBe("![a b.svg](img/a b.svg){width=25.4mm}");
+    expect(link({ template: "${path} ${width}" })).toBe("img/a b.svg ");
+  });
+
+  test("template alt text is escaped for HTML or the link syntax", () => {
+    const altText = 'A & B <"x"> [1]';
+    expect(
+      link({ template: '<img src="${path}" alt="${altText}">', altText }),
+    ).toBe('<img src="img/a b.svg" alt="A &amp; B &lt;&quot;x&quot;&gt; [1]">');
+    expect(
+      link({ template: "![${altText}](${path}){width=50%}", altText }),
+    ).toBe('![A & B <"x"> \\[1\\]](img/a b.svg){width=50%}');
+    expect(
+      link({
+        style: "latex",
+        template: "\\caption{${altText}}",
+        altText: "5%",
+      }),
+    ).toBe("\\caption{5\\%}");
+    expect(link({ template: "<b>${altTextRaw}</b>", altText: "<i>" })).toBe(
+      "<b><i></b>",
+    );
+  });
+
+  test("image sizes of SVG and PNG output", () => {
+    const svg = Buffer.from('<svg width="10mm" height="20mm"></svg>');
+    expect(imageSizeOf(svg, "svg")!.heightPx).toBeCloseTo((20 * 96) / 25.4);
+    const png = Buffer.alloc(24);
+    png.writeUInt32BE(300, 16);
+    png.writeUInt32BE(200, 20);
+    expect(imageSizeOf(png, "png")).toEqual({ widthPx: 300, heightPx: 200 });
+    expect(imageSizeOf(png, "jpg")).toBeUndefined();
+  });
+
+  test("finds the image path of the link under the cursor", () => {
+    const line = 'See ![a](img/a.svg "A") and ![](img/b.svg).';
+    expect(linkPathAt(line, 6)).toBe("img/a.svg");
+    expect(linkPathAt(line, 32)).toBe("img/b.svg");
+    expect(linkPathAt(line, 0)).toBeNull();
+    expect(linkPathAt("\\includegraphics[width=5cm]{fig/x.pdf}", 0)).toBe(
+      "fig/x.pdf",
+    );
+    expect(linkPathAt("image::x.svg[alt]", 3)).toBe("x.svg");
+    expect(linkPathAt(".. image:: x.svg", 0)).toBe("x.svg");
+    expect(linkPathAt('#image("x.svg", alt: "a")', 0)).toBe("x.svg");
+    expect(linkPathAt("[[file:x.svg]]", 0)).toBe("x.svg");
+    expect(linkPathAt('<img src="x.svg" width="10">', 0)).toBe("x.svg");
+  });
+
+  test("markdown links with brackets in the alt text are found again", () => {
+    for (const altText of ["[Cu(NH3)4]SO4", "a]b", "x\\", "[[1]"]) {
+      const line = `x ${link({ altText }, "img/cu.svg")} y`;
+      expect(linkAt(line, 3)?.path).toBe("img/cu.svg");
+      expect(linkAt(line, line.length - 1)?.path).toBe("img/cu.svg");
+    }
+  });
+
+  test("the cursor picks among links with brackets in the alt text", () => {
+    const line = "![\\[Cu\\]](img/a.svg) and ![b\\]](img/b.svg)";
+    expect(linkPathAt(line, 2)).toBe("img/a.svg");
+    expect(linkPathAt(line, line.indexOf("b\\]"))).toBe("img/b.svg");
+    expect(linkPathAt(line, line.indexOf(" and "))).toBe("img/a.svg");
+  });
+
+  test("locates the path for rewriting its extension", () => {
+    const line = "x ![img/a.svg](img/a.svg) y";
+    const found = linkAt(line, 4)!;
+    expect(line.slice(found.start, found.end)).toBe("img/a.svg");
+    expect(found.start).toBe(15);
+    expect(withExtension(found.path, "png")).toBe("img/a.png");
+    expect(withExtension("fig.v2/plot", "pdf")).toBe("fig.v2/plot.pdf");
+  });
+});
+
+describe("derived alt text", () => {
+  test("clipboard text is cleaned and truncated at a word", () => {
+    expect(altTextFromClipboard("  2-methyl\r\n\tpropane\u0000 ")).toBe(
+      "2-methyl propane",
+    );
+    const long = "word ".repeat(40);
+    const alt = altTextFromClipboard(long, 20);
+    expect(alt).toBe("word word word word…");
+    expect(alt.length).toBeLessThanOrEqual(20);
+    expect(altTextFromClipboard("<svg><rect/></svg>")).toBe("");
+    expect(altTextFromClipboard("{\\rtf1\\ansi x}")).toBe("");
+  });
+
+  test("file names become words", () => {
+    expect(altTextFromFilename("/n/img/benzene_ring-2.svg")).toBe(
+      "benzene ring 2",
+    );
+    expect(altTextFromFilename("attachment:aspirin.png")).toBe("aspirin");
+  });
+});
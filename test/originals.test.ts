@@ -0,0 +1,72 @@
+import * as path from "path";
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as zlib from "zlib";
+import {
+  findOriginal,
+  originalPath,
+  reconvertFromOriginal,
+  saveOriginal,
+} from "../src/originals";
+import { nonce } from "../src/util";
+
+const EMF2 = path.join(__dirname, "test2.emf");
+
+async function tmpDir() {
+  const dir = path.join(os.tmpdir(), `pv_test_orig_${nonce()}`);
+  await fs.mkdir(dir, { recursive: true });
+  return dir;
+}
+
+function rootWidth(svg: string): number {
+  return parseFloat(svg.match(/<svg\b[^>]*\swidth="([\d.]+)/)![1]);
+}
+
+describe("original cache", () => {
+  test("originals live in a hidden folder named after the output", async () => {
+    const dir = await tmpDir();
+    const out = path.join(dir, "img.svg");
+    expect(originalPath(out, "emf")).toBe(
+      path.join(dir, ".pastevector", "img.svg.emf"),
+    );
+    expect(await findOriginal(out)).toBeNull();
+    await saveOriginal(out, "svgz", Buffer.from("x"));
+    expect(await findOriginal(out)).toEqual({
+      abs: originalPath(out, "svgz"),
+      ext: "svgz",
+    });
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test("an EMF is re-converted in place with another scale", async () => {
+    const dir = await tmpDir();
+    const out = path.join(dir, "img.svg");
+    const original = {
+      abs: await saveOriginal(out, "emf", await fs.readFile(EMF2)),
+      ext: "emf" as const,
+    };
+    const o = { fit: false, fitEngine: "builtin" as const };
+    await reconvertFromOriginal(out, original, { ...o, scalePercent: 100 });
+    const w100 = rootWidth(await fs.readFile(out, "utf8"));
+    await reconvertFromOriginal(out, original, { ...o, scalePercent: 200 });
+    const w200 = rootWidth(await fs.readFile(out, "utf8"));
+    expect(w200).toBeCloseTo(w100 / 2, 2);
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test("an SVGZ original is unpacked and fitted", async () => {
+    const dir = await tmpDir();
+    const out = path.join(dir, "img.svg");
+    const svg =
+      '<svg xmlns="http://www.w3.org/2000/svg" width="500" height="500">' +
+      '<rect x="10" y="10" width="20" height="20"/></svg>';
+    const abs = await saveOriginal(out, "svgz", zlib.gzipSync(svg));
+    await reconvertFromOriginal(
+      out,
+      { abs, ext: "svgz" },
+      { scalePercent: null, fit: true, fitEngine: "builtin" },
+    );
+    expect(await fs.readFile(out, "utf8")).toMatch(/viewBox="10 10 20 20"/);
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+});
@@ -0,0 +1,143 @@
+import * as path from "path";
+import * as fs from "fs/promises";
+import * as os from "os";
+import { nonce } from "../src/util";
+import { PowerShellHelper } from "../src/powershell";
+
+// Stand-in for the PowerShell loop: speaks the same protocol, but a "script"
+// is lines of echo <text>, warn <text>, pid, wait <ms>, late <ms>, exit <n>,
+// raw <line>, crash or hang. late leaves a grandchild on stdout that answers
+// after <ms>; raw sends <line> as is and ends the script without an end line.
+const STAND_IN = `
+const cp = require("child_process");
+const readline = require("readline");
+const LATE =
+  'setTimeout(() => { console.log("o stale"); console.log("end 12"); },' +
+  " +process.argv[1]);";
+const sleep = (ms) => new Promise((r) => setTimeout(r, ms));
+const rl = readline.createInterface({ input: process.stdin });
+let chain = Promise.resolve();
+rl.on("line", (line) => {
+  chain = chain.then(() => handle(line));
+});
+async function handle(line) {
+  if (!line.startsWith("run ")) return;
+  const script = Buffer.from(line.slice(4), "base64").toString("utf8");
+  let code = 0;
+  for (const cmd of script.split("\\n")) {
+    const [verb, ...rest] = cmd.split(" ");
+    const arg = rest.join(" ");
+    if (verb === "echo") console.log("o " + arg);
+    if (verb === "warn") console.log("e " + arg);
+    if (verb === "pid") console.log("o " + process.pid);
+    if (verb === "wait") await sleep(Number(arg));
+    if (verb === "late") {
+      cp.spawn(process.execPath, ["-e", LATE, arg], {
+        stdio: ["ignore", "inherit", "ignore"],
+      });
+    }
+    if (verb === "raw") return console.log(arg);
+    if (verb === "crash") process.exit(3);
+    if (verb === "hang") return;
+    if (verb === "exit") { code = Number(arg); break; }
+  }
+  console.log("end " + code);
+}
+`;
+
+let tmp: string;
+let helper: PowerShellHelper;
+
+beforeAll(async () => {
+  tmp = path.join(os.tmpdir(), `pv_test_ps_${nonce()}`);
+  await fs.mkdir(tmp, { recursive: true });
+  await fs.writeFile(path.join(tmp, "standin.js"), STAND_IN);
+});
+
+beforeEach(() => {
+  helper = new PowerShellHelper(process.execPath, [
+    path.join(tmp, "standin.js"),
+  ]);
+});
+
+afterEach(() => helper.dispose());
+
+afterAll(async () => {
+  await fs.rm(tmp, { recursive: true, force: true });
+});
+
+describe("PowerShell helper", () => {
+  test("answers requests in order from one process", async () => {
+    const [a, b] = await Promise.all([
+      helper.run("pid\necho type\tEnhancedMetafile\t512\nexit 10", 5_000),
+      helper.run("pid\nwarn careful", 5_000),
+    ]);
+    const [pidA, ...rest] = a.stdout.split("\n");
+    expect(rest.join("\n")).toBe("type\tEnhancedMetafile\t512\n");
+    expect(a.code).toBe(10);
+    expect(b).toEqual({ code: 0, stdout: `${pidA}\n`, stderr: "careful" });
+    expect(helper.running).toBe(true);
+  });
+
+  test("the script's exit code becomes the result's code", async () => {
+    // The codes the WSL export script answers with (see exportWindowsClipboard).
+    for (const code of [0, 2, 10, 11, 12]) {
+      const r = await helper.run(
+        `echo before\nexit ${code}\necho after`,
+        5_000,
+      );
+      expect(r).toEqual({ code, stdout: "before\n", stderr: "" });
+    }
+    const garbled = await helper.run("echo x\nraw end twelve", 5_000);
+    expect(garbled).toEqual({ code: -1, stdout: "x\n", stderr: "" });
+    expect((await helper.run("echo next", 5_000)).code).toBe(0);
+  });
+
+  test("restarts after the helper crashes", async () => {
+    const before = await helper.run("pid", 5_000);
+    const crashed = await helper.run("crash", 5_000);
+    expect(crashed.code).toBe(-1);
+    expect(crashed.stderr).toMatch(/HELPER EXITED 3/);
+    const after = await helper.run("pid", 5_000);
+    expect(after.code).toBe(0);
+    expect(after.stdout).not.toBe(before.stdout);
+  });
+
+  test("a hung helper times out and is replaced", async () => {
+    await helper.run("echo warm", 5_000);
+    const hung = await helper.run("hang", 200);
+    expect(hung.code).toBe(-1);
+    expect(hung.stderr).toMatch(/TIMEOUT 200ms/);
+    expect(helper.running).toBe(false);
+    expect((await helper.run("echo back", 5_000)).stdout).toBe("back\n");
+  });
+
+  test("output of a timed-out helper does not reach the next request", async () => {
+    await helper.run("echo warm", 5_000);
+    const late = await helper.run("late 300\nhang", 100);
+    expect(late.code).toBe(-1);
+    expect(late.stderr).toMatch(/TIMEOUT 100ms/);
+    const next = await helper.run("wait 600\necho fresh", 5_000);
+    expect(next).toEqual({ code: 0, stdout: "fresh\n", stderr: "" });
+  });
+
+  test("cancel kills a running request and the next one restarts", async () => {
+    const before = await helper.run("pid", 5_000);
+    expect(helper.cancel()).toBe(false);
+    const hung = helper.run("hang", 5_000);
+    const queued = helper.run("pid", 5_000);
+    await new Promise((r) => setTimeout(r, 100));
+    expect(helper.cancel()).toBe(true);
+    expect(await hung).toEqual({ code: -1, stdout: "", stderr: "[CANCELLED]" });
+    const after = await queued;
+    expect(after.code).toBe(0);
+    expect(after.stdout).not.toBe(before.stdout);
+  });
+
+  test("a missing helper fails the request", async () => {
+    const missing = new PowerShellHelper(path.join(tmp, "no-such-shell"), []);
+    const r = await missing.run("echo x", 1_000);
+    expect(r.code).toBe(-1);
+    expect(r.stderr).toMatch(/SPAWN ERROR/);
+  });
+});
@@ -0,0 +1,41 @@
+import { applyFormatRules, parseFormatRules } from "../src/priority";
+
+// Mirrors the Linux candidates for an Inkscape-like clipboard.
+const OFFERED = [
+  { name: "svg", types: ["image/svg+xml"] },
+  { name: "emf", types: ["image/x-emf"] },
+  { name: "png", types: ["image/png"] },
+  { name: "jpg", types: ["image/jpeg"] },
+];
+
+function order(entries: string[]) {
+  return applyFormatRules(OFFERED, (k) => k, parseFormatRules(entries)).map(
+    (k) => k.name,
+  );
+}
+
+describe("format priority rules", () => {
+  test("no rules keep the built-in order", () => {
+    expect(order([])).toEqual(["svg", "emf", "png", "jpg"]);
+  });
+
+  test("listed handler names move to the front in list order", () => {
+    expect(order(["png", "emf"])).toEqual(["png", "emf", "svg", "jpg"]);
+  });
+
+  test("MIME types match as well as names, case-insensitively", () => {
+    expect(order(["IMAGE/JPEG"])).toEqual(["jpg", "svg", "emf", "png"]);
+  });
+
+  test("! excludes: never convert EMF, always take PNG", () => {
+    expect(order(["png", "!emf"])).toEqual(["png", "svg", "jpg"]);
+    expect(order(["!image/x-emf", "!svg"])).toEqual(["png", "jpg"]);
+  });
+
+  test("blank entries are ignored", () => {
+    expect(parseFormatRules([" ", "!", " Png "])).toEqual({
+      order: ["png"],
+      exclude: [],
+    });
+  });
+});
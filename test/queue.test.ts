@@ -0,0 +1,85 @@
+import { ConversionCancelledError, ConversionQueue } from "../src/queue";
+import { runText } from "../src/util";
+
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>((r) => (resolve = r));
+  return { promise, resolve };
+}
+
+describe("conversion queue", () => {
+  test("runs at most `limit` jobs at once, in order", async () => {
+    const q = new ConversionQueue();
+    q.limit = 2;
+    const started: number[] = [];
+    const gates = [deferred(), deferred(), deferred()];
+    const done = gates.map((g, i) =>
+      q.run(`job${i}`, async () => {
+        started.push(i);
+        await g.promise;
+      }),
+    );
+    expect(started).toEqual([0, 1]);
+    expect(q.pendingCount).toBe(1);
+    gates[0].resolve();
+    await done[0];
+    await Promise.resolve();
+    expect(started).toEqual([0, 1, 2]);
+    gates[1].resolve();
+    gates[2].resolve();
+    await Promise.all(done);
+    expect(q.runningCount).toBe(0);
+  });
+
+  test("cancelAll rejects queued jobs and kills running children", async () => {
+    const q = new ConversionQueue();
+    q.limit = 1;
+    const running = q.run("sleep", async () => {
+      const r = await runText("sleep", ["30"], 60_000);
+      if (r.code !== 0) throw new Error("sleep was killed");
+    });
+    const queued = q.run("never", async () => {
+      throw new Error("must not run");
+    });
+    await new Promise((r) => setTimeout(r, 100));
+
+    const t0 = Date.now();
+    expect(q.cancelAll()).toBe(2);
+    await expect(queued).rejects.toBeInstanceOf(ConversionCancelledError);
+    await expect(running).rejects.toBeInstanceOf(ConversionCancelledError);
+    expect(Date.now() - t0).toBeLessThan(5_000);
+  });
+
+  test("cancelled jobs that still finish are reported as cancelled", async () => {
+    const q = new ConversionQueue();
+    const running = q.run("swallows", async () => {
+      // Like fitEmfSvgCanvas: a killed tool is logged, not thrown.
+      await runText("sleep", ["30"], 60_000);
+    });
+    await new Promise((r) => setTimeout(r, 100));
+    q.cancelAll();
+    await expect(running).rejects.toBeInstanceOf(ConversionCancelledError);
+  });
+
+  test("processes outside the queue's jobs are not killed", async () => {
+    const q = new ConversionQueue();
+    const outside = runText("sleep", ["0.5"], 10_000);
+    const job = q.run("sleep", async () => {
+      await runText("sleep", ["30"], 60_000);
+    });
+    await new Promise((r) => setTimeout(r, 100));
+    q.cancelAll();
+    await expect(job).rejects.toBeInstanceOf(ConversionCancelledError);
+    expect((await outside).code).toBe(0);
+  });
+
+  test("change listeners see queue activity", async () => {
+    const q = new ConversionQueue();
+    const seen: number[] = [];
+    const sub = q.onDidChange(() => seen.push(q.runningCount));
+    await q.run("quick", async () => {});
+    sub.dispose();
+    expect(seen).toContain(1);
+    expect(seen[seen.length - 1]).toBe(0);
+  });
+});
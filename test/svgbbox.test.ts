@@ -0,0 +1,195 @@
+import * as path from "path";
+import * as fs from "fs/promises";
+import * as os from "os";
+import {
+  UnsupportedSvgError,
+  computeSvgDrawingBox,
+  fitSvgTextToDrawing,
+  svgRootSize,
+} from "../src/svgbbox";
+import { fitSvgWithBuiltin } from "../src/svg";
+import { nonce } from "../src/util";
+
+function svgDoc(attrs: string, body: string) {
+  return `<?xml version="1.0"?>\n<svg xmlns="http://www.w3.org/2000/svg" ${attrs}>${body}</svg>`;
+}
+
+function rootAttr(svg: string, name: string): string | null {
+  const tag = svg.match(/<svg\b[^>]*>/)![0];
+  return tag.match(new RegExp(`\\s${name}="([^"]*)"`))?.[1] ?? null;
+}
+
+// ── Bounding box ──────────────────────────────────────────────────────────────
+
+describe("computeSvgDrawingBox", () => {
+  test("rect with stroke expands by half the stroke width", () => {
+    const box = computeSvgDrawingBox(
+      svgDoc(
+        'width="500" height="500"',
+        '<rect x="10" y="20" width="30" height="40" stroke="#000" stroke-width="4"/>',
+      ),
+    );
+    expect(box).toEqual({ x: 8, y: 18, width: 34, height: 44 });
+  });
+
+  test("unstroked geometry ignores stroke-width", () => {
+    const box = computeSvgDrawingBox(
+      svgDoc("", '<line x1="0" y1="0" x2="10" y2="5" stroke-width="8"/>'),
+    );
+    expect(box).toEqual({ x: 0, y: 0, width: 10, height: 5 });
+  });
+
+  test("group transforms and inherited stroke are applied", () => {
+    const box = computeSvgDrawingBox(
+      svgDoc(
+        "",
+        '<g transform="translate(100 50) scale(2)" style="stroke:red;stroke-width:1">' +
+          '<path d="M0 0 h10 v10 z"/></g>',
+      ),
+    )!;
+    expect(box.x).toBeCloseTo(99);
+    expect(box.y).toBeCloseTo(49);
+    expect(box.width).toBeCloseTo(22);
+    expect(box.height).toBeCloseTo(22);
+  });
+
+  test("cubic Bézier extrema are exact, not control-point hulls", () => {
+    const box = computeSvgDrawingBox(
+      svgDoc("", '<path d="M0 0 C0 40 40 40 40 0"/>'),
+    )!;
+    expect(box.height).toBeCloseTo(30);
+    expect(box.width).toBeCloseTo(40);
+  });
+
+  test("rotated circle keeps its diameter", () => {
+    const box = computeSvgDrawingBox(
+      svgDoc("", '<circle cx="0" cy="0" r="10" transform="rotate(30)"/>'),
+    )!;
+    expect(box.width).toBeCloseTo(20, 1);
+    expect(box.height).toBeCloseTo(20, 1);
+  });
+
+  test("arcs, relative commands and implicit repeats", () => {
+    const box = computeSvgDrawingBox(
+      svgDoc("", '<path d="m10 10 a10 10 0 0 0 20 0 l5 0 5 5"/>'),
+    )!;
+    expect(box.x).toBeCloseTo(10);
+    expect(box.width).toBeCloseTo(30);
+    expect(box.height).toBeCloseTo(10, 1);
+  });
+
+  test("defs, hidden elements and metadata do not count", () => {
+    const box = computeSvgDrawingBox(
+      svgDoc(
+        'xmlns:sodipodi="http://sodipodi.sourceforge.net/DTD/sodipodi-0.dtd"',
+        '<defs><rect width="1000" height="1000"/></defs>' +
+          '<sodipodi:namedview pagecolor="#fff"/>' +
+          '<rect x="-50" width="5" height="5" display="none"/>' +
+          '<rect x="1" y="2" width="3" height="4"/>',
+      ),
+    );
+    expect(box).toEqual({ x: 1, y: 2, width: 3, height: 4 });
+  });
+
+  test("<use> resolves referenced geometry", () => {
+    const box = computeSvgDrawingBox(
+      svgDoc(
+        'xmlns:xlink="http://www.w3.org/1999/xlink"',
+        '<defs><rect id="r" width="5" height="5"/></defs>' +
+          '<use xlink:href="#r" x="100" y="100"/>',
+      ),
+    );
+    expect(box).toEqual({ x: 100, y: 100, width: 5, height: 5 });
+  });
+
+  test("text extent is estimated from font-size and character count", () => {
+    const box = computeSvgDrawingBox(
+      svgDoc("", '<text x="0" y="20" font-size="10">CH3</text>'),
+    )!;
+    expect(box.x).toBeCloseTo(0);
+    expect(box.y).toBeLessThan(20);
+    expect(box.y + box.height).toBeGreaterThan(20);
+    expect(box.width).toBeGreaterThan(10);
+  });
+
+  test("empty drawing → null", () => {
+    expect(computeSvgDrawingBox(svgDoc("", "<g/>"))).toBeNull();
+  });
+
+  test("nested viewport is reported as unsupported", () => {
+    expect(() =>
+      computeSvgDrawingBox(
+        svgDoc("", '<svg viewBox="0 0 1 1"><rect width="1" height="1"/></svg>'),
+      ),
+    ).toThrow(UnsupportedSvgError);
+  });
+});
+
+// ── Root rewrite ──────────────────────────────────────────────────────────────
+
+describe("fitSvgTextToDrawing", () => {
+  test("no viewBox: width/height in px, viewBox added", () => {
+    const out = fitSvgTextToDrawing(
+      svgDoc(
+        'width="1000" height="800"',
+        '<rect x="100" y="200" width="50" height="25"/>',
+      ),
+    )!;
+    expect(rootAttr(out, "viewBox")).toBe("100 200 50 25");
+    expect(rootAttr(out, "width")).toBe("50");
+    expect(rootAttr(out, "height")).toBe("25");
+  });
+
+  test("viewBox with mm size keeps the physical scale", () => {
+    const out = fitSvgTextToDrawing(
+      svgDoc(
+        'width="200mm" height="100mm" viewBox="0 0 400 200"',
+        '<rect x="100" y="50" width="100" height="20"/>',
+      ),
+    )!;
+    expect(rootAttr(out, "viewBox")).toBe("100 50 100 20");
+    expect(rootAttr(out, "width")).toBe("50mm");
+    expect(rootAttr(out, "height")).toBe("10mm");
+  });
+
+  test("percentage size is kept as-is", () => {
+    const out = fitSvgTextToDrawing(
+      svgDoc('width="100%"', '<rect width="10" height="10"/>'),
+    )!;
+    expect(rootAttr(out, "width")).toBe("100%");
+    expect(rootAttr(out, "viewBox")).toBe("0 0 10 10");
+  });
+
+  test("fitSvgWithBuiltin rewrites the file in place", async () => {
+    const p = path.join(os.tmpdir(), `pv_test_fit_${nonce()}.svg`);
+    await fs.writeFile(
+      p,
+      svgDoc('width="300" height="300"', '<circle cx="20" cy="20" r="5"/>'),
+    );
+    expect(await fitSvgWithBuiltin(p)).toBe(true);
+    const out = await fs.readFile(p, "utf8");
+    expect(rootAttr(out, "viewBox")).toBe("15 15 10 10");
+    await fs.unlink(p);
+  });
+});
+
+// ── Root size ─────────────────────────────────────────────────────────────────
+
+describe("svgRootSize", () => {
+  test("width/height in physical units are converted to px", () => {
+    const size = svgRootSize(svgDoc('width="25.4mm" height="1in"', ""))!;
+    expect(size.widthPx).toBeCloseTo(96);
+    expect(size.heightPx).toBeCloseTo(96);
+  });
+
+  test("missing or percentage sizes fall back to the viewBox", () => {
+    expect(svgRootSize(svgDoc('viewBox="0 0 40 20"', ""))).toEqual({
+      widthPx: 40,
+      heightPx: 20,
+    });
+    expect(
+      svgRootSize(svgDoc('width="80" height="100%" viewBox="0 0 40 20"', "")),
+    ).toEqual({ widthPx: 80, heightPx: 40 });
+    expect(svgRootSize(svgDoc('width="100%"', ""))).toBeNull();
+  });
+});